@@ -235,7 +235,8 @@ app.post('/api/leads/update', async (req, res) => {
   if (updateData.source !== undefined) fieldsToValidate.source = updateData.source;
   fieldsToValidate.email = updateData.email;
 
-  const validation = validateLeadData(fieldsToValidate);
+  // Partial updates: fields left out keep their stored values
+  const validation = validateLeadData({ ...existingLead, ...fieldsToValidate });
   if (!validation.isValid) {
     return res.status(400).json({
       error: "Validation failed",
@@ -266,6 +267,47 @@ app.post('/api/leads/update', async (req, res) => {
   });
 });
 
+app.post('/api/leads/delete', async (req, res) => {
+  await delay(getRandomDelay());
+
+  if (shouldSimulateRateLimit()) {
+    return res.status(429).json({
+      error: "Rate limit exceeded",
+      retryAfter: 5
+    });
+  }
+
+  if (shouldSimulateServerError()) {
+    return res.status(500).json({
+      error: "Internal server error"
+    });
+  }
+
+  const { email } = req.body;
+
+  if (!email || !validateEmail(email)) {
+    return res.status(400).json({
+      error: "Valid email is required"
+    });
+  }
+
+  const lead = leads.get(email.toLowerCase());
+
+  if (!lead) {
+    return res.status(404).json({
+      error: "Lead not found",
+      message: "No lead found with the provided email address"
+    });
+  }
+
+  leads.delete(lead.email);
+
+  res.json({
+    success: true,
+    lead
+  });
+});
+
 app.get('/api/health', (req, res) => {
   res.json({
     status: 'healthy',
@@ -299,22 +341,25 @@ app.use((req, res) => {
   });
 });
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`🚀 Mock API Server running on http://localhost:${PORT}`);
-  console.log(`📊 Health check: http://localhost:${PORT}/api/health`);
-  console.log(`📋 All leads: http://localhost:${PORT}/api/leads`);
-  console.log(`\n📚 API Documentation:`);
-  console.log(`   GET  /api/leads/lookup?email={email}  - Lookup lead by email`);
-  console.log(`   POST /api/leads/create                - Create new lead`);
-  console.log(`   POST /api/leads/update                - Update existing lead`);
-  console.log(`\n💡 Sample data preloaded:`);
-  console.log(`   - alice@example.com (Acme Inc)`);
-  console.log(`   - bob@startup.com (Startup Co)`);
-  console.log(`\n⚠️  Random failures enabled:`);
-  console.log(`   - Rate limiting (429): 10% chance`);
-  console.log(`   - Server errors (500): 5% chance`);
-  console.log(`   - Network delays: 100-1000ms`);
-});
+// Start server when run directly; tests require the app and listen themselves
+if (require.main === module) {
+  app.listen(PORT, () => {
+    console.log(`🚀 Mock API Server running on http://localhost:${PORT}`);
+    console.log(`📊 Health check: http://localhost:${PORT}/api/health`);
+    console.log(`📋 All leads: http://localhost:${PORT}/api/leads`);
+    console.log(`\n📚 API Documentation:`);
+    console.log(`   GET  /api/leads/lookup?email={email}  - Lookup lead by email`);
+    console.log(`   POST /api/leads/create                - Create new lead`);
+    console.log(`   POST /api/leads/update                - Update existing lead`);
+    console.log(`   POST /api/leads/delete                - Delete lead by email`);
+    console.log(`\n💡 Sample data preloaded:`);
+    console.log(`   - alice@example.com (Acme Inc)`);
+    console.log(`   - bob@startup.com (Startup Co)`);
+    console.log(`\n⚠️  Random failures enabled:`);
+    console.log(`   - Rate limiting (429): 10% chance`);
+    console.log(`   - Server errors (500): 5% chance`);
+    console.log(`   - Network delays: 100-1000ms`);
+  });
+}
 
 module.exports = app;
@@ -1,16 +1,77 @@
 import axios from "axios";
 import { Lead } from "./validator";
-import { createLogger } from "./logger";
+import { FieldValue } from "./schema";
+import { LeadUpdate } from "./leadDiff";
+import { Logger, createLogger } from "./logger";
+import { RateLimiter, createRateLimiter } from "./rateLimiter";
+import { RetriesExhaustedError } from "./errors";
 
-const logger = createLogger("apiClient");
+const defaultLogger = createLogger("apiClient");
 
-const BASE_URL = process.env.API_BASE_URL || "http://localhost:3001";
+export const DEFAULT_BASE_URL = "http://localhost:3001";
 const MAX_RETRIES = 3;
 const BASE_DELAY = process.env.NODE_ENV === "test" ? 0 : 1000;
 
 const RETRYABLE_STATUS_CODES = [429, 500, 502, 503, 504];
 const RETRYABLE_ERROR_CODES = ["ECONNABORTED", "ETIMEDOUT"];
 
+/**
+ * A failed request that is about to be retried
+ */
+export interface RetryEvent {
+  attempt: number;
+  maxRetries: number;
+  status?: number;
+  code?: string;
+  /** Wait before the next attempt: the server's retry hint or the backoff delay */
+  delayMs: number;
+}
+
+/**
+ * Where leads are looked up and written. The HTTP API client is one; tests
+ * and embedding services can supply their own.
+ */
+export interface LeadStoreClient {
+  /** Resolves to null when there is no lead with this email */
+  lookupLead(email: string): Promise<Lead | null>;
+  createLead(lead: Lead): Promise<Lead>;
+  /** Changes only the fields present */
+  updateLead(lead: LeadUpdate): Promise<Lead>;
+}
+
+export interface ApiClient extends LeadStoreClient {
+  /** Resolves to false when there was no lead with this email */
+  deleteLead(email: string): Promise<boolean>;
+}
+
+export interface ApiClientOptions {
+  baseUrl: string;
+  /** Paces this client's requests; defaults to an unlimited one */
+  rateLimiter?: RateLimiter;
+  logger?: Logger;
+  /** Called before each retry, e.g. to show backoff state */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+/**
+ * Reads the server's retry hint (body `retryAfter` or Retry-After header,
+ * in seconds) from a 429 response
+ */
+function getRetryAfterMs(err: unknown): number | undefined {
+  const error = err as {
+    response?: { data?: { retryAfter?: unknown }; headers?: Record<string, unknown> };
+  };
+  const retryAfter =
+    error.response?.data?.retryAfter ?? error.response?.headers?.["retry-after"];
+  const seconds = Number(retryAfter);
+  return retryAfter != null && Number.isFinite(seconds) && seconds >= 0
+    ? seconds * 1000
+    : undefined;
+}
+
+type RetryContext = Required<Pick<ApiClientOptions, "rateLimiter" | "logger">> &
+  Pick<ApiClientOptions, "onRetry">;
+
 function isRetryable(err: unknown): boolean {
   const error = err as {
     isAxiosError?: boolean;
@@ -32,12 +93,16 @@ function isRetryable(err: unknown): boolean {
   return false;
 }
 
-async function withRetry<T>(fn: () => Promise<T>): Promise<T> {
+async function withRetry<T>(options: RetryContext, fn: () => Promise<T>): Promise<T> {
+  const { rateLimiter, logger } = options;
   let lastError: unknown;
 
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
     try {
-      return await fn();
+      await rateLimiter.acquire();
+      const result = await fn();
+      rateLimiter.onSuccess();
+      return result;
     } catch (err: unknown) {
       lastError = err;
 
@@ -45,10 +110,17 @@ async function withRetry<T>(fn: () => Promise<T>): Promise<T> {
         throw err;
       }
 
+      const status = (err as { response?: { status?: number } }).response?.status;
+      const retryAfterMs = status === 429 ? getRetryAfterMs(err) : undefined;
+      if (status === 429) {
+        // Slows every caller down, not just this request
+        rateLimiter.onThrottled(retryAfterMs);
+      }
+
       logger.warn("Request failed, will retry", {
         attempt,
         maxRetries: MAX_RETRIES,
-        status: (err as { response?: { status?: number } }).response?.status,
+        status,
         code: (err as { code?: string }).code,
       });
 
@@ -57,6 +129,23 @@ async function withRetry<T>(fn: () => Promise<T>): Promise<T> {
       }
 
       const delay = BASE_DELAY * Math.pow(2, attempt - 1);
+      const event: RetryEvent = {
+        attempt,
+        maxRetries: MAX_RETRIES,
+        status,
+        code: (err as { code?: string }).code,
+        delayMs: retryAfterMs ?? delay,
+      };
+      options.onRetry?.(event);
+
+      // After a retry hint the limiter holds every caller back instead
+      if (retryAfterMs !== undefined) {
+        logger.info(
+          `Rate limited, retry ${attempt + 1}/${MAX_RETRIES} after ${retryAfterMs}ms`
+        );
+        continue;
+      }
+
       logger.info(`Waiting ${delay}ms before retry ${attempt + 1}/${MAX_RETRIES}`);
 
       if (delay > 0) {
@@ -65,11 +154,47 @@ async function withRetry<T>(fn: () => Promise<T>): Promise<T> {
     }
   }
 
-  throw new Error(
-    `Max retries exhausted after ${MAX_RETRIES} attempts. Last error: ${
-      lastError instanceof Error ? lastError.message : String(lastError)
-    }`
-  );
+  throw new RetriesExhaustedError(MAX_RETRIES, lastError);
+}
+
+// Response keys that describe the record rather than lead data
+const META_FIELDS = ["id", "createdAt", "updatedAt", "found", "success", "lead"];
+const CORE_FIELDS = ["name", "email", "company", "source"];
+
+/**
+ * Flattens custom fields next to the core fields for the request body.
+ * Absent fields of a partial update are left out.
+ */
+function toPayload(lead: Lead | LeadUpdate): Record<string, FieldValue> {
+  const { custom, ...core } = lead;
+  const payload: Record<string, FieldValue> = { ...custom };
+  for (const [key, value] of Object.entries(core)) {
+    if (value !== undefined) payload[key] = value;
+  }
+  return payload;
+}
+
+/**
+ * Builds a Lead from a flat API record, collecting any extra fields
+ */
+function toLead(record: Record<string, unknown>): Lead {
+  const custom: Record<string, FieldValue> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (CORE_FIELDS.includes(key) || META_FIELDS.includes(key) || value == null) continue;
+    custom[key] = Array.isArray(value)
+      ? value.map(String)
+      : typeof value === "number" || typeof value === "boolean"
+        ? value
+        : String(value);
+  }
+
+  return {
+    name: String(record.name),
+    email: String(record.email),
+    company: String(record.company ?? ""),
+    source: String(record.source ?? ""),
+    ...(Object.keys(custom).length > 0 && { custom }),
+  };
 }
 
 function extractLeadFromResponse(data: unknown): Lead {
@@ -92,12 +217,7 @@ function extractLeadFromResponse(data: unknown): Lead {
     );
   }
 
-  return {
-    name: String(leadData.name),
-    email: String(leadData.email),
-    company: String(leadData.company ?? ""),
-    source: String(leadData.source ?? ""),
-  };
+  return toLead(leadData);
 }
 
 // Keep for unit tests that mock axios with flat lead objects
@@ -121,67 +241,113 @@ function validateLeadResponse(data: unknown): Lead {
     );
   }
 
-  return data as Lead;
+  return toLead(record);
 }
 
-export async function lookupLead(email: string): Promise<Lead | null> {
-  return withRetry(async () => {
-    try {
-      logger.debug("Looking up lead", { email });
-
-      const response = await axios.get(`${BASE_URL}/api/leads/lookup`, {
-        params: { email },
-      });
+/**
+ * Creates a client for the leads API at `baseUrl`. Every request goes
+ * through the rate limiter and is retried on throttling, timeouts and 5xx.
+ */
+export function createApiClient(options: ApiClientOptions): ApiClient {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+  const logger = options.logger ?? defaultLogger;
+  const context: RetryContext = {
+    rateLimiter: options.rateLimiter ?? createRateLimiter({ requestsPerSecond: Infinity }),
+    logger,
+    onRetry: options.onRetry,
+  };
 
-      const data = response.data as Record<string, unknown>;
+  async function lookupLead(email: string): Promise<Lead | null> {
+    return withRetry(context, async () => {
+      try {
+        logger.debug("Looking up lead", { email });
+
+        const response = await axios.get(`${baseUrl}/api/leads/lookup`, {
+          params: { email },
+        });
+
+        const data = response.data as Record<string, unknown>;
+
+        // Server returns { found: false } for non-existent leads (200, not 404)
+        if ("found" in data && data.found === false) {
+          logger.debug("Lead not found", { email });
+          return null;
+        }
+
+        // Server returns { found: true, lead: {...} }
+        const lead = validateLeadResponse(data);
+        logger.debug("Lead found", { email });
+        return lead;
+      } catch (err: unknown) {
+        const error = err as {
+          isAxiosError?: boolean;
+          response?: { status?: number };
+        };
+
+        if (error.isAxiosError && error.response?.status === 404) {
+          return null;
+        }
 
-      // Server returns { found: false } for non-existent leads (200, not 404)
-      if ("found" in data && data.found === false) {
-        logger.debug("Lead not found", { email });
-        return null;
+        throw err;
       }
+    });
+  }
 
-      // Server returns { found: true, lead: {...} }
-      const lead = validateLeadResponse(data);
-      logger.debug("Lead found", { email });
-      return lead;
-    } catch (err: unknown) {
-      const error = err as {
-        isAxiosError?: boolean;
-        response?: { status?: number };
-      };
+  async function createLead(lead: Lead): Promise<Lead> {
+    return withRetry(context, async () => {
+      logger.debug("Creating lead", { email: lead.email });
 
-      if (error.isAxiosError && error.response?.status === 404) {
-        return null;
-      }
+      const response = await axios.post(`${baseUrl}/api/leads/create`, toPayload(lead));
 
-      throw err;
-    }
-  });
-}
+      // Server returns { success: true, lead: {...} }
+      const created = validateLeadResponse(response.data);
+      logger.debug("Lead created", { email: lead.email });
+      return created;
+    });
+  }
 
-export async function createLead(lead: Lead): Promise<Lead> {
-  return withRetry(async () => {
-    logger.debug("Creating lead", { email: lead.email });
+  /**
+   * Updates an existing lead. Only the fields present are changed.
+   */
+  async function updateLead(lead: LeadUpdate): Promise<Lead> {
+    return withRetry(context, async () => {
+      logger.debug("Updating lead", { email: lead.email });
 
-    const response = await axios.post(`${BASE_URL}/api/leads/create`, lead);
+      const response = await axios.post(`${baseUrl}/api/leads/update`, toPayload(lead));
 
-    // Server returns { success: true, lead: {...} }
-    const created = validateLeadResponse(response.data);
-    logger.debug("Lead created", { email: lead.email });
-    return created;
-  });
-}
+      // Server returns { success: true, lead: {...} }
+      const updated = validateLeadResponse(response.data);
+      logger.debug("Lead updated", { email: lead.email });
+      return updated;
+    });
+  }
+
+  /**
+   * Deletes a lead by email. Returns false when there was no such lead.
+   */
+  async function deleteLead(email: string): Promise<boolean> {
+    return withRetry(context, async () => {
+      try {
+        logger.debug("Deleting lead", { email });
 
-export async function updateLead(lead: Lead): Promise<Lead> {
-  return withRetry(async () => {
-    logger.debug("Updating lead", { email: lead.email });
+        await axios.post(`${baseUrl}/api/leads/delete`, { email });
 
-    const response = await axios.post(`${BASE_URL}/api/leads/update`, lead);
+        logger.debug("Lead deleted", { email });
+        return true;
+      } catch (err: unknown) {
+        const error = err as {
+          isAxiosError?: boolean;
+          response?: { status?: number };
+        };
 
-    // Server returns { success: true, lead: {...} }
-    const updated = validateLeadResponse(response.data);
-    logger.debug("Lead updated", { email: lead.email });
-    return updated;
-  });
-}
\ No newline at end of file
+        if (error.isAxiosError && error.response?.status === 404) {
+          return false;
+        }
+
+        throw err;
+      }
+    });
+  }
+
+  return { lookupLead, createLead, updateLead, deleteLead };
+}
@@ -0,0 +1,106 @@
+import { createHash } from 'crypto';
+import {
+  closeSync,
+  createReadStream,
+  existsSync,
+  fdatasyncSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  rmSync,
+  writeSync,
+} from 'fs';
+import { dirname, join } from 'path';
+import { LeadResult } from './leadProcessor';
+
+export const CHECKPOINT_DIR = join('.lead-ingest', 'checkpoints');
+
+/**
+ * A completed row. `claimed` marks the row that owns its email within the
+ * batch, so duplicate detection still works for rows after a resume.
+ */
+export interface CheckpointEntry {
+  position: number;
+  claimed: boolean;
+  result: LeadResult;
+}
+
+export interface CheckpointJournal {
+  path: string;
+  /** Rows completed by earlier sessions, by batch position */
+  completed: Map<number, CheckpointEntry>;
+  /** Appends a completed row and flushes it to disk */
+  record(entry: CheckpointEntry): void;
+  close(): void;
+  /** Closes and deletes the journal, e.g. once the file is fully ingested */
+  discard(): void;
+}
+
+/**
+ * SHA-256 of a file's contents; journals are keyed by it so an edited file
+ * never resumes from a stale journal
+ */
+export async function fingerprintFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+export const checkpointPath = (fingerprint: string, dir: string = CHECKPOINT_DIR): string =>
+  join(dir, `${fingerprint}.ndjson`);
+
+/**
+ * Reads the entries of an existing journal. A torn last line from a crash
+ * is ignored.
+ */
+function readEntries(filePath: string): Map<number, CheckpointEntry> {
+  const entries = new Map<number, CheckpointEntry>();
+  if (!existsSync(filePath)) return entries;
+
+  for (const line of readFileSync(filePath, 'utf-8').split('\n')) {
+    if (line.trim() === '') continue;
+    try {
+      const entry = JSON.parse(line) as CheckpointEntry;
+      if (typeof entry.position === 'number' && entry.result) entries.set(entry.position, entry);
+    } catch {
+      // Incomplete write; the row is simply processed again
+    }
+  }
+  return entries;
+}
+
+/**
+ * Opens the journal for a file. With `resume`, rows recorded by earlier
+ * sessions are loaded and new rows are appended; otherwise the journal
+ * starts empty.
+ */
+export function openCheckpointJournal(
+  filePath: string,
+  options: { resume?: boolean } = {}
+): CheckpointJournal {
+  mkdirSync(dirname(filePath), { recursive: true });
+  const completed = options.resume ? readEntries(filePath) : new Map<number, CheckpointEntry>();
+  const fd = openSync(filePath, options.resume ? 'a' : 'w');
+  let open = true;
+
+  const close = () => {
+    if (open) closeSync(fd);
+    open = false;
+  };
+
+  return {
+    path: filePath,
+    completed,
+    record(entry) {
+      writeSync(fd, JSON.stringify(entry) + '\n');
+      fdatasyncSync(fd);
+    },
+    close,
+    discard() {
+      close();
+      rmSync(filePath, { force: true });
+    },
+  };
+}
@@ -0,0 +1,138 @@
+import { readFileSync } from 'fs';
+import { CORE_FIELDS, CoreField, DEFAULT_SCHEMA, LeadSchema } from './schema';
+
+export type LeadField = CoreField;
+
+/**
+ * Header aliases accepted for each Lead field
+ */
+export type ColumnMapping = Record<LeadField, string[]>;
+
+/**
+ * Resolved header -> field name lookup for a single file. Values are core
+ * Lead fields or custom field names from the schema.
+ */
+export type ColumnResolution = Record<string, string>;
+
+const LEAD_FIELDS = CORE_FIELDS;
+
+const FIELD_LABELS: Record<LeadField, string> = {
+  name: 'Name',
+  email: 'Email',
+  company: 'Company',
+  source: 'Source',
+};
+
+export const DEFAULT_COLUMN_MAPPING: ColumnMapping = {
+  name: ['Name', 'Full Name', 'Contact Name', 'Lead Name'],
+  email: ['Email', 'E-mail', 'Email Address', 'E-mail Address', 'Work Email'],
+  company: ['Company', 'Company Name', 'Organization', 'Organisation', 'Account'],
+  source: ['Source', 'Lead Source', 'Channel'],
+};
+
+/**
+ * Normalizes a header for comparison: case, surrounding whitespace,
+ * BOM, and separators ("E-mail_Address" === "e mail address")
+ */
+export const normalizeHeader = (header: string): string =>
+  header
+    .replace(/^\uFEFF/, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, ' ');
+
+/**
+ * Finds the field a single header maps to, if any: core fields through the
+ * column mapping, custom fields through their schema name and aliases
+ */
+export const matchColumn = (
+  header: string,
+  mapping: ColumnMapping = DEFAULT_COLUMN_MAPPING,
+  schema: LeadSchema = DEFAULT_SCHEMA
+): string | undefined => {
+  const normalized = normalizeHeader(header);
+  const matches = (alias: string) => normalizeHeader(alias) === normalized;
+
+  return (
+    LEAD_FIELDS.find((f) => mapping[f].some(matches)) ??
+    schema.fields.find((f) => [f.name, ...(f.aliases ?? [])].some(matches))?.name
+  );
+};
+
+/**
+ * Maps the headers of a file onto Lead fields, failing on missing or
+ * ambiguous columns. Unknown headers are ignored.
+ */
+export function resolveColumns(
+  headers: string[],
+  mapping: ColumnMapping = DEFAULT_COLUMN_MAPPING,
+  schema: LeadSchema = DEFAULT_SCHEMA
+): ColumnResolution {
+  const resolution: ColumnResolution = {};
+  const matched = new Map<string, string>();
+
+  for (const header of headers) {
+    const field = matchColumn(header, mapping, schema);
+    if (!field) continue;
+
+    const previous = matched.get(field);
+    if (previous !== undefined) {
+      const label = FIELD_LABELS[field as LeadField] ?? field;
+      throw new Error(
+        `Invalid CSV: headers "${previous}" and "${header}" both map to "${label}"`
+      );
+    }
+    matched.set(field, header);
+    resolution[header] = field;
+  }
+
+  const missing = LEAD_FIELDS.find((f) => !matched.has(f));
+  if (missing) {
+    throw new Error(`Invalid CSV: missing required header "${FIELD_LABELS[missing]}"`);
+  }
+
+  return resolution;
+}
+
+/**
+ * Loads a JSON mapping file ({ "name": ["Full Name"], ... }) and merges it
+ * over the default aliases
+ */
+export function loadColumnMapping(filePath: string): ColumnMapping {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException | null)?.code ?? '';
+    const message = error instanceof Error ? error.message : String(error);
+    const errorMessages: Record<string, string> = {
+      ENOENT: `Mapping file not found: ${filePath}`,
+      EACCES: `Permission denied: ${filePath}`,
+    };
+    throw new Error(errorMessages[code] ?? `Invalid mapping file ${filePath}: ${message}`);
+  }
+
+  if (raw == null || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Invalid mapping file ${filePath}: expected a JSON object`);
+  }
+
+  const mapping: ColumnMapping = { ...DEFAULT_COLUMN_MAPPING };
+
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!LEAD_FIELDS.includes(key as LeadField)) {
+      throw new Error(`Invalid mapping file ${filePath}: unknown field "${key}"`);
+    }
+
+    const aliases = Array.isArray(value) ? value : [value];
+    if (!aliases.every((a) => typeof a === 'string')) {
+      throw new Error(
+        `Invalid mapping file ${filePath}: aliases for "${key}" must be strings`
+      );
+    }
+
+    const field = key as LeadField;
+    mapping[field] = [...(aliases as string[]), ...DEFAULT_COLUMN_MAPPING[field]];
+  }
+
+  return mapping;
+}
@@ -0,0 +1,112 @@
+/**
+ * Legal-form suffixes dropped from comparison keys, written without
+ * punctuation and lowercase. Multi-word forms are matched as whole words.
+ */
+export const LEGAL_SUFFIXES = [
+  'inc',
+  'incorporated',
+  'llc',
+  'llp',
+  'lp',
+  'pllc',
+  'ltd',
+  'limited',
+  'corp',
+  'corporation',
+  'co',
+  'company',
+  'plc',
+  'gmbh',
+  'ag',
+  'kg',
+  'sa',
+  'sas',
+  'sarl',
+  'srl',
+  'spa',
+  'bv',
+  'nv',
+  'ab',
+  'oy',
+  'as',
+  'pty',
+  'pvt',
+  'kk',
+];
+
+/**
+ * Common spellings of well-known companies. Keys and values are compared
+ * with companyKey; values are the display names that get written.
+ */
+export const DEFAULT_COMPANY_ALIASES: Record<string, string> = {
+  'international business machines': 'IBM',
+  'hewlett packard': 'HP',
+  'procter and gamble': 'P&G',
+  'amazon.com': 'Amazon',
+};
+
+const collapseWhitespace = (value: string): string => value.trim().replace(/\s+/g, ' ');
+
+/**
+ * Strips case, punctuation, "&" vs "and", a leading "the" and trailing legal
+ * suffixes: "The Acme Co., Inc." and "ACME" share the key "acme"
+ */
+function baseKey(name: string): string {
+  const words = name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[.'’]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .split(' ')
+    .filter((word) => word !== '');
+
+  if (words[0] === 'the' && words.length > 1) words.shift();
+  while (words.length > 1 && LEGAL_SUFFIXES.includes(words[words.length - 1])) {
+    words.pop();
+    // "Acme & Co" -> "acme"
+    if (words.length > 1 && words[words.length - 1] === 'and') words.pop();
+  }
+  return words.join(' ');
+}
+
+/**
+ * Finds the alias entry whose key matches a company name
+ */
+function findAlias(name: string, aliases: Record<string, string>): string | undefined {
+  const key = baseKey(name);
+  if (key === '') return undefined;
+  return Object.entries(aliases).find(([alias]) => baseKey(alias) === key)?.[1];
+}
+
+/**
+ * Comparison key for companies. Names resolving to the same alias share a
+ * key, so "International Business Machines Corp." and "IBM" compare equal.
+ */
+export function companyKey(
+  name: string,
+  aliases: Record<string, string> = DEFAULT_COMPANY_ALIASES
+): string {
+  const target = findAlias(name, aliases);
+  return baseKey(target ?? name);
+}
+
+/**
+ * Display form of a company name: the alias target when one matches,
+ * otherwise the name with whitespace trimmed and collapsed
+ */
+export function normalizeCompany(
+  name: string,
+  aliases: Record<string, string> = DEFAULT_COMPANY_ALIASES
+): string {
+  return collapseWhitespace(findAlias(name, aliases) ?? name);
+}
+
+/**
+ * Checks whether two company names refer to the same company
+ */
+export const companiesMatch = (
+  a: string,
+  b: string,
+  aliases: Record<string, string> = DEFAULT_COMPANY_ALIASES
+): boolean => companyKey(a, aliases) === companyKey(b, aliases);
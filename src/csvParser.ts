@@ -1,91 +1,221 @@
-import { readFileSync } from 'fs';
-import { parse } from 'csv-parse/sync';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import { CsvError, parse } from 'csv-parse';
 import { Lead } from './validator';
+import {
+  ColumnMapping,
+  ColumnResolution,
+  DEFAULT_COLUMN_MAPPING,
+  resolveColumns,
+} from './columnMapping';
+import { DEFAULT_SCHEMA, LeadSchema, assignField } from './schema';
 
-const REQUIRED_HEADERS = ['Name', 'Email', 'Company', 'Source'] as const;
-const COLUMN_MAP: Record<string, keyof Lead> = {
-  Name: 'name',
-  Email: 'email',
-  Company: 'company',
-  Source: 'source',
-};
+export interface ParseOptions {
+  mapping?: ColumnMapping;
+  /** Custom fields to pick up in addition to the core columns */
+  schema?: LeadSchema;
+  /** Report malformed rows as ParsedRow errors instead of failing the file */
+  lenient?: boolean;
+  /** Field delimiter, defaults to a comma */
+  delimiter?: string;
+}
 
 /**
- * Reads file content with descriptive error handling
+ * A parsed record together with where it came from
  */
-function readFile(filePath: string): string {
-  try {
-    return readFileSync(filePath, 'utf-8');
-  } catch (error: any) {
-    const errorMessages: Record<string, string> = {
-      ENOENT: `File not found: ${filePath}`,
-      EACCES: `Permission denied: ${filePath}`,
-    };
-    throw new Error(errorMessages[error.code] ?? error.message);
-  }
+export interface ParsedRow {
+  /** 1-based source line on which the record starts */
+  line: number;
+  lead: Lead;
+  /**
+   * The record as it appeared in the input, keyed by header, so rejected
+   * rows can be written back out in their original shape
+   */
+  raw?: Record<string, string>;
+  /** Structural problems found in lenient mode */
+  errors?: string[];
+}
+
+interface ParserInfo {
+  lines: number;
 }
 
 /**
- * Validates that all required headers are present
+ * Turns a filesystem error into a descriptive one
  */
-function validateHeaders(content: string): void {
-  const headerLine = content.split('\n')[0] ?? '';
-  const headers = headerLine.split(',').map((h) => h.trim());
-  
-  const missing = REQUIRED_HEADERS.find((h) => !headers.includes(h));
-  if (missing) {
-    throw new Error(`Invalid CSV: missing required header "${missing}"`);
-  }
+export function describeReadError(error: unknown, filePath: string): Error {
+  const errorMessages: Record<string, string> = {
+    ENOENT: `File not found: ${filePath}`,
+    EACCES: `Permission denied: ${filePath}`,
+  };
+  const code = (error as NodeJS.ErrnoException | null)?.code;
+  const message = error instanceof Error ? error.message : String(error);
+  return new Error((code !== undefined && errorMessages[code]) || message);
 }
 
 /**
- * Validates row column counts
+ * Node attaches the failing syscall to filesystem errors
+ */
+export const isFileSystemError = (error: unknown): error is NodeJS.ErrnoException =>
+  typeof (error as NodeJS.ErrnoException | null)?.syscall === 'string';
+
+/**
+ * csv-parse reports structural problems as CsvError with a CSV_* code
+ */
+const isCsvError = (error: unknown): error is CsvError =>
+  error instanceof CsvError && error.code.startsWith('CSV_');
+
+/**
+ * csv-parse reports the line a record ends on; quoted fields may span lines
+ */
+const startLine = (fields: string[], info: ParserInfo): number =>
+  info.lines - fields.reduce((n, field) => n + (field.match(/\n/g)?.length ?? 0), 0);
+
+const emptyLead = (): Lead => ({ name: '', email: '', company: '', source: '' });
+
+/**
+ * Maps a parsed record to a Lead object using the resolved columns
+ */
+const mapToLead = (
+  fields: string[],
+  headers: string[],
+  columns: ColumnResolution,
+  schema: LeadSchema
+): Lead => {
+  const lead = emptyLead();
+  headers.forEach((header, index) => {
+    const field = columns[header];
+    if (field) assignField(lead, field, fields[index] ?? '', schema);
+  });
+  return lead;
+};
+
+/**
+ * Keys the fields of a record by header. Fields beyond the header row (on
+ * malformed rows) are kept under their column number.
  */
-function validateRows(content: string): void {
-  const lines = content.trim().split('\n').slice(1);
-  
-  for (let i = 0; i < lines.length; i++) {
-    if (lines[i].trim() === '') continue;
-    
-    const columnCount = lines[i].split(',').length;
-    if (columnCount !== REQUIRED_HEADERS.length) {
-      throw new Error(
-        `Malformed row ${i + 2}: expected ${REQUIRED_HEADERS.length} columns, got ${columnCount}`
-      );
+const toRawRecord = (fields: string[], headers: string[]): Record<string, string> => {
+  const raw: Record<string, string> = {};
+  fields.forEach((value, index) => {
+    raw[headers[index] ?? `column ${index + 1}`] = value;
+  });
+  return raw;
+};
+
+/**
+ * Parses a CSV text or byte stream into ParsedRow objects without loading it
+ * into memory. Header problems surface on the first iteration, before any row
+ * is yielded. Column counts are checked on the real parsed records, so quoted
+ * delimiters and multi-line fields are fine.
+ */
+export async function* parseCSVStream(
+  input: Readable,
+  options: ParseOptions = {}
+): AsyncGenerator<ParsedRow> {
+  const mapping = options.mapping ?? DEFAULT_COLUMN_MAPPING;
+  const schema = options.schema ?? DEFAULT_SCHEMA;
+  const lenient = options.lenient ?? false;
+
+  // Where the last record read ended, counting skipped blank lines
+  let lastEnd = { lines: 0, emptyLines: 0 };
+
+  const parser = parse({
+    info: true,
+    relax_column_count: true,
+    skip_empty_lines: true,
+    skip_records_with_error: lenient,
+    bom: true,
+    delimiter: options.delimiter ?? ',',
+    on_record: (record, context) => {
+      lastEnd = { lines: context.lines, emptyLines: context.empty_lines };
+      return record;
+    },
+  });
+  input.on('error', (error) => parser.destroy(error));
+
+  // Records csv-parse could not tokenize (lenient mode only). The error
+  // carries the line parsing stopped on; an unclosed quote runs on and
+  // takes the rows after it along.
+  const skipped: ParsedRow[] = [];
+  parser.on('skip', (error: CsvError) => {
+    const line = lastEnd.lines + 1 + (error.empty_lines - lastEnd.emptyLines);
+    const end: number = error.lines;
+    lastEnd = { lines: end, emptyLines: error.empty_lines };
+    const message =
+      end > line
+        ? `${error.message}; lines ${line + 1}-${end} were read into this record and skipped`
+        : error.message;
+    skipped.push({ line, lead: emptyLead(), errors: [message] });
+  });
+  const drainSkipped = function* (beforeLine: number) {
+    skipped.sort((a, b) => a.line - b.line);
+    while (skipped.length > 0 && skipped[0].line < beforeLine) {
+      yield skipped.shift() as ParsedRow;
+    }
+  };
+
+  let headers: string[] | undefined;
+  let columns: ColumnResolution = {};
+
+  try {
+    for await (const { record, info } of input.pipe(parser)) {
+      const fields = record as string[];
+
+      if (!headers) {
+        headers = fields.map((h) => h.trim());
+        columns = resolveColumns(headers, mapping, schema);
+        continue;
+      }
+
+      const line = startLine(fields, info);
+      yield* drainSkipped(line);
+
+      const lead = mapToLead(fields, headers, columns, schema);
+      const raw = toRawRecord(fields, headers);
+      if (fields.length === headers.length) {
+        yield { line, lead, raw };
+        continue;
+      }
+
+      const message = `Malformed row ${line}: expected ${headers.length} columns, got ${fields.length}`;
+      if (!lenient) throw new Error(message);
+      yield { line, lead, raw, errors: [message] };
     }
+    yield* drainSkipped(Infinity);
+
+    // Empty file: report the missing headers
+    if (!headers) resolveColumns([], mapping);
+  } catch (error) {
+    throw isCsvError(error) ? new Error(`Malformed CSV row: ${error.message}`) : error;
+  } finally {
+    input.destroy();
   }
 }
 
 /**
- * Maps CSV record to Lead object
+ * Streams a UTF-8 CSV file as ParsedRow objects
  */
-const mapToLead = (record: Record<string, string>): Lead => ({
-  name: record.Name?.trim() ?? '',
-  email: record.Email?.trim() ?? '',
-  company: record.Company?.trim() ?? '',
-  source: record.Source?.trim() ?? '',
-});
+export async function* streamCSVRows(
+  filePath: string,
+  options: ParseOptions = {}
+): AsyncGenerator<ParsedRow> {
+  try {
+    yield* parseCSVStream(createReadStream(filePath), options);
+  } catch (error) {
+    throw isFileSystemError(error) ? describeReadError(error, filePath) : error;
+  }
+}
 
 /**
  * Parses a CSV file and returns an array of Lead objects
  */
-export async function parseCSVFile(filePath: string): Promise<Lead[]> {
-  const content = readFile(filePath);
-  
-  // Validate structure before parsing
-  validateHeaders(content);
-  validateRows(content);
-
-  // Parse CSV
-  try {
-    const records = parse(content, {
-      columns: true,
-      skip_empty_lines: true,
-      trim: true,
-    });
-    
-    return records.map(mapToLead);
-  } catch (error: any) {
-    throw new Error(`Malformed CSV row: ${error.message}`);
+export async function parseCSVFile(
+  filePath: string,
+  options: ParseOptions = {}
+): Promise<Lead[]> {
+  const leads: Lead[] = [];
+  for await (const row of streamCSVRows(filePath, { ...options, lenient: false })) {
+    leads.push(row.lead);
   }
+  return leads;
 }
@@ -0,0 +1,283 @@
+import { writeFileSync } from 'fs';
+import { Lead, detectDuplicateEmails } from './validator';
+import { jaroWinkler } from './similarity';
+import { DEFAULT_COMPANY_ALIASES, companyKey } from './companyNormalizer';
+import { EmailNormalizationOptions, normalizeEmail } from './emailNormalizer';
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.85;
+
+/** Pairs whose names score below this are never duplicates */
+const MIN_NAME_SIMILARITY = 0.8;
+
+const WEIGHTS = { name: 0.4, company: 0.3, email: 0.3 };
+
+/** Domains shared by unrelated people, too common to block on alone */
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'outlook.com',
+  'hotmail.com',
+  'live.com',
+  'yahoo.com',
+  'icloud.com',
+  'me.com',
+  'aol.com',
+  'proton.me',
+  'protonmail.com',
+  'gmx.com',
+  'gmx.de',
+  'web.de',
+  'mail.com',
+  'yandex.ru',
+]);
+
+export interface DuplicateAnalysisOptions {
+  /** Weighted similarity (0-1) at which two leads count as duplicates */
+  threshold?: number;
+  companyAliases?: Record<string, string>;
+  /** Folding applied to emails before comparing them */
+  email?: EmailNormalizationOptions;
+}
+
+/**
+ * A lead to analyze, with its position in the batch
+ */
+export interface DuplicateCandidate {
+  index: number;
+  line?: number;
+  lead: Lead;
+}
+
+export interface DuplicateMember {
+  index: number;
+  line?: number;
+  name: string;
+  email: string;
+  company: string;
+}
+
+/**
+ * Leads that are likely the same person. Members are in input order.
+ */
+export interface DuplicateCluster {
+  members: DuplicateMember[];
+  /** Highest pair score inside the cluster */
+  score: number;
+  /** Why members matched: "same email", "similar name", "same company", "similar email" */
+  reasons: string[];
+}
+
+interface Profile {
+  candidate: DuplicateCandidate;
+  email: string;
+  local: string;
+  domain: string;
+  name: string;
+  company: string;
+}
+
+const nameKey = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+/**
+ * Checks whether an email local part is derived from a name:
+ * janedoe, jdoe, janed, doejane, doe.j, ...
+ */
+function localPartMatchesName(local: string, name: string): boolean {
+  const tokens = name.split(' ').filter((t) => t !== '');
+  if (tokens.length < 2) return local === tokens[0];
+
+  const first = tokens[0];
+  const last = tokens[tokens.length - 1];
+  return [
+    first + last,
+    first[0] + last,
+    first + last[0],
+    last + first,
+    last + first[0],
+    first,
+    last,
+  ].includes(local);
+}
+
+function profile(candidate: DuplicateCandidate, options: DuplicateAnalysisOptions): Profile {
+  const email = normalizeEmail(candidate.lead.email, options.email);
+  const [rawLocal = '', domain = ''] = email.split('@');
+  return {
+    candidate,
+    email,
+    local: rawLocal.replace(/\+.*$/, '').replace(/[._-]/g, ''),
+    domain,
+    name: nameKey(candidate.lead.name),
+    company: companyKey(candidate.lead.company, {
+      ...DEFAULT_COMPANY_ALIASES,
+      ...options.companyAliases,
+    }),
+  };
+}
+
+/**
+ * Scores two leads from 0 to 1 on name, company and email local part
+ */
+function scorePair(
+  a: Profile,
+  b: Profile
+): { score: number; nameScore: number; reasons: string[] } {
+  const nameScore = jaroWinkler(a.name, b.name);
+  const companyScore =
+    a.company !== '' && a.company === b.company ? 1 : jaroWinkler(a.company, b.company);
+
+  let emailScore = jaroWinkler(a.local, b.local);
+  if (
+    a.domain === b.domain &&
+    localPartMatchesName(a.local, b.name) &&
+    localPartMatchesName(b.local, a.name)
+  ) {
+    emailScore = 1;
+  }
+
+  const reasons: string[] = [];
+  if (nameScore >= 0.9) reasons.push('similar name');
+  if (companyScore === 1) reasons.push('same company');
+  if (emailScore >= 0.9) reasons.push('similar email');
+
+  const score =
+    WEIGHTS.name * nameScore + WEIGHTS.company * companyScore + WEIGHTS.email * emailScore;
+  return { score, nameScore, reasons };
+}
+
+/**
+ * Keys that group leads worth comparing, so large batches avoid an
+ * all-pairs comparison
+ */
+function blockingKeys(p: Profile): string[] {
+  // Everyone shares a free-mail domain, so block on the start of the local part too
+  const keys = [
+    FREE_MAIL_DOMAINS.has(p.domain)
+      ? `domain:${p.domain}:${p.local.slice(0, 3)}`
+      : `domain:${p.domain}`,
+  ];
+  if (p.company !== '') keys.push(`company:${p.company}`);
+  const lastName = p.name.split(' ').pop() ?? '';
+  if (lastName !== '') keys.push(`name:${lastName.slice(0, 3)}`);
+  return keys;
+}
+
+/**
+ * Finds clusters of likely duplicate leads. Exact email repeats are
+ * clustered too; other pairs must share a blocking key, reach the
+ * threshold and have similar names. Pairs are joined transitively.
+ */
+export function findDuplicateClusters(
+  candidates: DuplicateCandidate[],
+  options: DuplicateAnalysisOptions = {}
+): DuplicateCluster[] {
+  const threshold = options.threshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+  const profiles = candidates.map((candidate) => profile(candidate, options));
+
+  // Union-find over positions in `profiles`
+  const parent = profiles.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const scores = new Map<number, number>();
+  const reasons = new Map<number, Set<string>>();
+  const join = (i: number, j: number, score: number, pairReasons: string[]) => {
+    const root = find(i);
+    const other = find(j);
+    const merged = new Set([
+      ...(reasons.get(root) ?? []),
+      ...(reasons.get(other) ?? []),
+      ...pairReasons,
+    ]);
+    const best = Math.max(scores.get(root) ?? 0, scores.get(other) ?? 0, score);
+    parent[other] = root;
+    reasons.set(root, merged);
+    scores.set(root, best);
+  };
+
+  const sameEmail = detectDuplicateEmails(
+    profiles.map((p) => ({ ...p.candidate.lead, email: p.email }))
+  );
+  for (const indices of sameEmail.values()) {
+    for (const i of indices.slice(1)) join(indices[0], i, 1, ['same email']);
+  }
+
+  const blocks = new Map<string, number[]>();
+  profiles.forEach((p, i) => {
+    for (const key of blockingKeys(p)) {
+      const block = blocks.get(key) ?? [];
+      block.push(i);
+      blocks.set(key, block);
+    }
+  });
+
+  const compared = new Set<string>();
+  for (const members of blocks.values()) {
+    for (let x = 0; x < members.length; x++) {
+      for (let y = x + 1; y < members.length; y++) {
+        const [i, j] = [members[x], members[y]];
+        const pairKey = `${i}:${j}`;
+        if (compared.has(pairKey) || profiles[i].email === profiles[j].email) continue;
+        compared.add(pairKey);
+
+        const { score, nameScore, reasons: pairReasons } = scorePair(profiles[i], profiles[j]);
+        if (score >= threshold && nameScore >= MIN_NAME_SIMILARITY) {
+          join(i, j, score, pairReasons);
+        }
+      }
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  profiles.forEach((_, i) => {
+    const root = find(i);
+    const cluster = clusters.get(root) ?? [];
+    cluster.push(i);
+    clusters.set(root, cluster);
+  });
+
+  return [...clusters.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      members: members.map((i) => {
+        const { index, line, lead } = profiles[i].candidate;
+        return {
+          index,
+          ...(line !== undefined && { line }),
+          name: lead.name,
+          email: lead.email,
+          company: lead.company,
+        };
+      }),
+      score: Math.round((scores.get(root) ?? 0) * 1000) / 1000,
+      reasons: [...(reasons.get(root) ?? [])],
+    }))
+    .sort((a, b) => a.members[0].index - b.members[0].index);
+}
+
+/**
+ * Batch positions to hold back: every cluster member after the first
+ */
+export const heldIndices = (clusters: DuplicateCluster[]): Set<number> =>
+  new Set(clusters.flatMap((cluster) => cluster.members.slice(1).map((m) => m.index)));
+
+/**
+ * Writes the clusters found per input as a JSON report
+ */
+export function writeDuplicateReport(
+  filePath: string,
+  clustersByInput: Record<string, DuplicateCluster[]>
+): void {
+  const clusters = Object.entries(clustersByInput).flatMap(([input, found]) =>
+    found.map((cluster) => ({ input, ...cluster }))
+  );
+  writeFileSync(filePath, JSON.stringify({ clusters }, null, 2) + '\n');
+}
@@ -0,0 +1,101 @@
+import { Lead } from './validator';
+import { CORE_FIELDS, FieldValue } from './schema';
+import { EmailNormalizationOptions, normalizeEmail } from './emailNormalizer';
+
+export const DUPLICATE_STRATEGIES = ['first', 'last', 'merge', 'error'] as const;
+
+/**
+ * What to do when an email appears more than once in a batch:
+ * - first: keep the first row, skip later ones (streams; no buffering)
+ * - last: keep the last row, skip earlier ones
+ * - merge: fold every row into the first, later non-empty values winning
+ * - error: reject every occurrence
+ */
+export type DuplicateStrategy = typeof DUPLICATE_STRATEGIES[number];
+
+/**
+ * A row of a buffered batch. `row` is the number shown to users: the source
+ * line when known, otherwise the 1-based position in the batch.
+ */
+export interface BatchRow {
+  position: number;
+  row: number;
+  lead: Lead;
+}
+
+export type Resolution =
+  /** Process this (possibly merged) lead; `foldedFrom` lists the rows folded into it */
+  | { kind: 'keep'; lead: Lead; foldedFrom: number[] }
+  /** Skip this row; it was folded into row `into` */
+  | { kind: 'fold'; into: number; details: string }
+  /** Reject this row; `others` are the rows sharing its email */
+  | { kind: 'conflict'; others: number[] };
+
+const isBlank = (value: FieldValue | undefined): boolean =>
+  value === undefined ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Merges leads in order; each non-empty value replaces the earlier one,
+ * blanks never clear a value
+ */
+export function mergeLeads(leads: Lead[]): Lead {
+  const [first, ...rest] = leads;
+  const merged: Lead = { ...first, ...(first.custom && { custom: { ...first.custom } }) };
+
+  for (const lead of rest) {
+    for (const field of CORE_FIELDS) {
+      if (!isBlank(lead[field])) merged[field] = lead[field];
+    }
+    for (const [key, value] of Object.entries(lead.custom ?? {})) {
+      if (!isBlank(value)) merged.custom = { ...merged.custom, [key]: value };
+    }
+  }
+  return merged;
+}
+
+/**
+ * Groups a batch by normalized email and decides what happens to each row
+ * of a repeated email. Rows without an email and rows of unique emails are
+ * left out of the returned map (keyed by position) and processed as usual.
+ */
+export function resolveDuplicates(
+  rows: BatchRow[],
+  strategy: Exclude<DuplicateStrategy, 'first'>,
+  emailOptions: EmailNormalizationOptions = {}
+): Map<number, Resolution> {
+  const groups = new Map<string, BatchRow[]>();
+  for (const row of rows) {
+    const key = normalizeEmail(row.lead.email, emailOptions);
+    if (key === '') continue;
+    const group = groups.get(key) ?? [];
+    group.push(row);
+    groups.set(key, group);
+  }
+
+  const resolutions = new Map<number, Resolution>();
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+
+    if (strategy === 'error') {
+      for (const row of group) {
+        const others = group.filter((r) => r !== row).map((r) => r.row);
+        resolutions.set(row.position, { kind: 'conflict', others });
+      }
+      continue;
+    }
+
+    const kept = strategy === 'last' ? group[group.length - 1] : group[0];
+    const folded = group.filter((r) => r !== kept);
+    const lead = strategy === 'merge' ? mergeLeads(group.map((r) => r.lead)) : kept.lead;
+    const details =
+      strategy === 'merge' ? `Merged into row ${kept.row}` : `Superseded by row ${kept.row}`;
+
+    resolutions.set(kept.position, { kind: 'keep', lead, foldedFrom: folded.map((r) => r.row) });
+    for (const row of folded) {
+      resolutions.set(row.position, { kind: 'fold', into: kept.row, details });
+    }
+  }
+  return resolutions;
+}
@@ -0,0 +1,170 @@
+import { readFileSync } from 'fs';
+import { domainToASCII } from 'url';
+import { Lead } from './validator';
+import BUNDLED_DISPOSABLE_DOMAINS from './data/disposableDomains.json';
+import BUNDLED_ROLE_ACCOUNTS from './data/roleAccounts.json';
+
+export const SCREENING_ACTIONS = ['reject', 'warn', 'tag'] as const;
+
+export type ScreeningAction = typeof SCREENING_ACTIONS[number];
+
+export interface EmailNormalizationOptions {
+  /** Drop "+tag" suffixes from the local part (jane+news@ -> jane@) */
+  foldPlusTags?: boolean;
+  /** Drop dots from Gmail local parts (j.ane@gmail.com -> jane@gmail.com) */
+  foldGmailDots?: boolean;
+}
+
+export interface ScreeningLists {
+  disposableDomains: Set<string>;
+  roleAccounts: Set<string>;
+}
+
+export interface EmailOptions extends EmailNormalizationOptions {
+  /** Defaults to "warn" */
+  disposableAction?: ScreeningAction;
+  /** Defaults to "warn" */
+  roleAction?: ScreeningAction;
+  /** Defaults to the bundled lists */
+  lists?: ScreeningLists;
+}
+
+export interface EmailScreening {
+  disposable: boolean;
+  role: boolean;
+}
+
+export interface ScreenedLead {
+  lead: Lead;
+  errors: string[];
+  warnings: string[];
+}
+
+/** Tags added to custom.tags by the "tag" action */
+export const DISPOSABLE_TAG = 'disposable-email';
+export const ROLE_TAG = 'role-account';
+
+const GMAIL_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+/**
+ * Normalizes an email address: trims, lowercases, drops trailing dots from
+ * the domain and converts internationalized domains to punycode. Plus-tag
+ * and Gmail-dot folding are opt-in since they change the address itself.
+ * Values without exactly one "@" are only trimmed and lowercased so
+ * validation can reject them.
+ */
+export function normalizeEmail(
+  email: string,
+  options: EmailNormalizationOptions = {}
+): string {
+  const trimmed = email.trim().toLowerCase();
+  const parts = trimmed.split('@');
+  if (parts.length !== 2) return trimmed;
+
+  let [local, domain] = parts;
+  domain = domain.replace(/\.+$/, '');
+  domain = domainToASCII(domain) || domain;
+
+  if (options.foldPlusTags) {
+    local = local.replace(/\+.*$/, '');
+  }
+  if (options.foldGmailDots && GMAIL_DOMAINS.includes(domain)) {
+    local = local.replace(/\./g, '');
+    domain = 'gmail.com';
+  }
+
+  return `${local}@${domain}`;
+}
+
+/**
+ * Builds screening lists from the bundled ones plus any extra entries
+ */
+export function createScreeningLists(
+  extra: { disposableDomains?: string[]; roleAccounts?: string[] } = {}
+): ScreeningLists {
+  const clean = (entries: string[]) =>
+    entries.map((entry) => entry.trim().toLowerCase()).filter((entry) => entry !== '');
+
+  return {
+    disposableDomains: new Set(
+      clean([...BUNDLED_DISPOSABLE_DOMAINS, ...(extra.disposableDomains ?? [])])
+    ),
+    roleAccounts: new Set(clean([...BUNDLED_ROLE_ACCOUNTS, ...(extra.roleAccounts ?? [])])),
+  };
+}
+
+/**
+ * Reads a list file with one entry per line; blank lines and "#" comments
+ * are ignored
+ */
+export function loadScreeningList(filePath: string): string[] {
+  let text: string;
+  try {
+    text = readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException | null)?.code ?? '';
+    const message = error instanceof Error ? error.message : String(error);
+    const errorMessages: Record<string, string> = {
+      ENOENT: `List file not found: ${filePath}`,
+      EACCES: `Permission denied: ${filePath}`,
+    };
+    throw new Error(errorMessages[code] ?? `Cannot read list file ${filePath}: ${message}`);
+  }
+
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*$/, '').trim())
+    .filter((line) => line !== '');
+}
+
+/**
+ * Checks a normalized email against the lists. Subdomains of a disposable
+ * domain count as disposable; role accounts match the local part without
+ * any plus-tag.
+ */
+export function screenEmail(email: string, lists: ScreeningLists): EmailScreening {
+  const [local = '', domain = ''] = email.toLowerCase().split('@');
+  const labels = domain.split('.');
+  const disposable = labels.some((_, i) =>
+    lists.disposableDomains.has(labels.slice(i).join('.'))
+  );
+  const role = lists.roleAccounts.has(local.replace(/\+.*$/, ''));
+  return { disposable, role };
+}
+
+const defaultLists = createScreeningLists();
+
+/**
+ * Applies the configured screening actions to a lead whose email is
+ * already normalized. "reject" yields errors, "warn" yields warnings and
+ * "tag" appends a tag to custom.tags.
+ */
+export function applyEmailScreening(lead: Lead, options: EmailOptions = {}): ScreenedLead {
+  const screening = screenEmail(lead.email, options.lists ?? defaultLists);
+  const result: ScreenedLead = { lead, errors: [], warnings: [] };
+
+  const apply = (action: ScreeningAction, message: string, tag: string) => {
+    if (action === 'reject') {
+      result.errors.push(message);
+    } else if (action === 'warn') {
+      result.warnings.push(message);
+    } else {
+      const tags = result.lead.custom?.tags;
+      const existing = Array.isArray(tags) ? tags : [];
+      if (!existing.includes(tag)) {
+        result.lead = {
+          ...result.lead,
+          custom: { ...result.lead.custom, tags: [...existing, tag] },
+        };
+      }
+    }
+  };
+
+  if (screening.disposable) {
+    apply(options.disposableAction ?? 'warn', 'Disposable email domain', DISPOSABLE_TAG);
+  }
+  if (screening.role) {
+    apply(options.roleAction ?? 'warn', 'Role account email address', ROLE_TAG);
+  }
+  return result;
+}
@@ -0,0 +1,36 @@
+/**
+ * Thrown when an API request keeps failing with a retryable error
+ * (throttling, timeouts, 5xx) until every attempt is used up. The lead may
+ * well succeed later, unlike after a validation or conflict error.
+ */
+export class RetriesExhaustedError extends Error {
+  constructor(
+    readonly attempts: number,
+    readonly lastError: unknown
+  ) {
+    super(
+      `Max retries exhausted after ${attempts} attempts. Last error: ${
+        lastError instanceof Error ? lastError.message : String(lastError)
+      }`
+    );
+    this.name = 'RetriesExhaustedError';
+  }
+}
+
+/**
+ * Thrown when a plugin hook fails. It only affects the lead being processed.
+ */
+export class PluginError extends Error {
+  constructor(
+    readonly plugin: string,
+    readonly hook: string,
+    readonly cause: unknown
+  ) {
+    super(
+      `Plugin ${plugin} failed in ${hook}: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`
+    );
+    this.name = 'PluginError';
+  }
+}
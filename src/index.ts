@@ -1,36 +1,551 @@
+#!/usr/bin/env node
 import { Command } from "commander";
+import { join } from "path";
 import { createLogger } from "./logger";
-import { parseCSVFile } from "./csvParser";
-import { processLeads } from "./leadProcessor";
+import { createApiClient } from "./apiClient";
+import { createRateLimiter } from "./rateLimiter";
+import {
+  InputFormat,
+  ReadOptions,
+  STDIN_PATH,
+  countLeadRows,
+  readLeadRows,
+} from "./inputReader";
+import { resolveInputPaths } from "./inputFiles";
+import { loadColumnMapping } from "./columnMapping";
+import { loadSchema } from "./schema";
+import { loadRules } from "./rules";
+import { loadMergePolicies } from "./mergePolicy";
+import {
+  SCREENING_ACTIONS,
+  ScreeningAction,
+  createScreeningLists,
+  loadScreeningList,
+} from "./emailNormalizer";
+import { DuplicateCluster, writeDuplicateReport } from "./duplicateAnalyzer";
+import { DUPLICATE_STRATEGIES, DuplicateStrategy } from "./duplicateResolver";
+import { LeadInput, LeadResult, ProcessingSummary, combineSummaries } from "./leadProcessor";
+import { LeadIngestor } from "./leadIngestor";
+import { formatPlan } from "./planReport";
+import { isRejected, writeRejects } from "./rejectsFile";
+import { RunReport, parseReportTarget, writeReports } from "./runReport";
+import { createProgressReporter } from "./progress";
+import { loadPlugin } from "./plugins";
+import {
+  CheckpointJournal,
+  checkpointPath,
+  fingerprintFile,
+  openCheckpointJournal,
+} from "./checkpoint";
+import { FailedEntry, createRunId, openRunLog, pendingFailures, readRunLog } from "./runLog";
+import { UndoAction, undoRun } from "./undo";
 
 const logger = createLogger("main");
 
+type DedupeScope = "run" | "file";
+
+interface IngestOptions {
+  file?: string[];
+  apiUrl: string;
+  mapping?: string;
+  schema?: string;
+  rules?: string;
+  mergePolicies?: string;
+  addMissingCustomFields?: boolean;
+  plugin: string[];
+  lenient?: boolean;
+  format?: InputFormat;
+  delimiter?: string;
+  dedupeScope: DedupeScope;
+  duplicates: DuplicateStrategy;
+  foldPlusTags?: boolean;
+  foldGmailDots?: boolean;
+  disposableEmails: ScreeningAction;
+  roleEmails: ScreeningAction;
+  disposableList?: string;
+  roleList?: string;
+  concurrency: number;
+  rateLimit: number;
+  dryRun?: boolean;
+  resume?: boolean;
+  requeue: boolean;
+  requeueCooldown: number;
+  rejects?: string;
+  report: string[];
+  progress: boolean;
+  countRows?: boolean;
+  duplicateReport?: string;
+  holdDuplicates?: boolean;
+  duplicateThreshold?: number;
+  stateDir: string;
+}
+
+interface UndoOptions {
+  apiUrl: string;
+  rateLimit: number;
+  removeCreated?: boolean;
+  stateDir: string;
+}
+
 const program = new Command();
 program
-  .requiredOption("--file <path>", "CSV file path")
+  .option(
+    "--file <paths...>",
+    "Lead files, directories or globs (CSV, TSV, JSON or NDJSON); - reads stdin"
+  )
   .option("--api-url <url>", "API base URL", "http://localhost:3001")
-  .parse(process.argv);
+  .option(
+    "--state-dir <dir>",
+    "Directory for checkpoints and run logs (default: $LEAD_INGEST_STATE_DIR or .lead-ingest)",
+    process.env.LEAD_INGEST_STATE_DIR || ".lead-ingest"
+  )
+  .option("--mapping <path>", "JSON file with header aliases per lead field")
+  .option("--schema <path>", "JSON file defining custom lead fields and their types")
+  .option("--rules <path>", "JSON file with validation rules (merged over the defaults by id)")
+  .option(
+    "--merge-policies <path>",
+    "JSON file with per-field update policies: overwrite, fill-blank, never, prefer-non-empty"
+  )
+  .option(
+    "--add-missing-custom-fields",
+    "Update existing leads with custom fields they have no value for (the store must keep them)"
+  )
+  .option(
+    "--plugin <path>",
+    "Module with hooks that tag, transform or veto leads (repeatable; run in order)",
+    (value: string, previous: string[]) => [...previous, value],
+    []
+  )
+  .option("--lenient", "Reject malformed rows individually instead of failing the file")
+  .option("--format <format>", "Input format: csv, tsv, json or ndjson (default: from extension)")
+  .option("--delimiter <char>", "CSV field delimiter (default: sniffed from the header)")
+  .option(
+    "--dedupe-scope <scope>",
+    "Detect duplicate emails across the whole run or per file: run or file",
+    "run"
+  )
+  .option(
+    "--duplicates <strategy>",
+    "Repeated emails in a file: first, last, merge (non-empty fields) or error",
+    "first"
+  )
+  .option("--fold-plus-tags", "Treat jane+tag@example.com as jane@example.com")
+  .option("--fold-gmail-dots", "Ignore dots in Gmail addresses (j.ane@gmail.com)")
+  .option(
+    "--disposable-emails <action>",
+    "Disposable email domains: reject, warn or tag",
+    "warn"
+  )
+  .option(
+    "--role-emails <action>",
+    "Role account addresses (info@, noreply@): reject, warn or tag",
+    "warn"
+  )
+  .option("--disposable-list <path>", "Extra disposable domains, one per line")
+  .option("--role-list <path>", "Extra role account names, one per line")
+  .option("--concurrency <n>", "Leads processed in parallel", (value) => parseInt(value, 10), 1)
+  .option(
+    "--rate-limit <rps>",
+    "Maximum API requests per second, lowered automatically on 429 responses",
+    parseFloat,
+    10
+  )
+  .option("--resume", "Skip rows completed by an interrupted earlier run of the same file")
+  .option("--no-requeue", "Do not retry leads that failed transiently after the main pass")
+  .option(
+    "--requeue-cooldown <seconds>",
+    "Wait before retrying leads that failed transiently",
+    parseFloat,
+    30
+  )
+  .option("--dry-run", "Validate and look leads up, then print the plan without writing")
+  .option(
+    "--rejects <path>",
+    "Write errored and skipped rows as CSV, in their original columns, for correction"
+  )
+  .option(
+    "--report <format:path>",
+    "Write a run report: json, csv, junit or html (repeatable, e.g. junit:report.xml)",
+    (value: string, previous: string[]) => [...previous, value],
+    []
+  )
+  .option("--no-progress", "Do not show progress (a live view on a TTY, periodic lines otherwise)")
+  .option(
+    "--count-rows",
+    "Count each file's rows before ingesting it, so progress shows a total and ETA (reads it twice)"
+  )
+  .option("--duplicate-report <path>", "Write likely duplicate clusters to a JSON report")
+  .option("--hold-duplicates", "Hold likely duplicates back instead of creating them")
+  .option(
+    "--duplicate-threshold <score>",
+    "Similarity (0-1) at which leads count as likely duplicates",
+    parseFloat
+  )
+  .action(() => main(program.opts<IngestOptions>()));
+
+program
+  .command("retry-failed <run-id>")
+  .description("Ingest the leads an earlier run gave up on after transient API failures")
+  .action((runId: string, _options: unknown, command: Command) =>
+    retryFailed(runId, command.optsWithGlobals<IngestOptions>())
+  );
+
+program
+  .command("undo <run-id>")
+  .description("Roll back the creates and updates of an earlier run")
+  .option("--remove-created", "Delete the leads the run created instead of only listing them")
+  .action((runId: string, _options: unknown, command: Command) =>
+    undo(runId, command.optsWithGlobals<UndoOptions>())
+  );
+
+/** Checkpoints and run logs live under the state directory */
+const checkpointDir = (stateDir: string): string => join(stateDir, "checkpoints");
+const runLogDir = (stateDir: string): string => join(stateDir, "runs");
+
+/**
+ * One batch of leads to ingest: an input file, or leads replayed from a run log
+ */
+interface IngestSource {
+  label: string;
+  /** Path of the input file; stdin and replayed leads have none, so no checkpoint */
+  file?: string;
+  rows: AsyncIterable<LeadInput> | Iterable<LeadInput>;
+  /**
+   * Counts the rows up front, for progress; absent unless --count-rows asks for it,
+   * undefined when they cannot be counted
+   */
+  count?: () => Promise<number | undefined>;
+  /** Called with the results of a run that wrote, in row order */
+  onResults?: (results: LeadResult[]) => void;
+}
+
+/**
+ * Validates the options, loads the configuration files and ingests every
+ * source the callback lists, then reports and exits
+ */
+async function ingest(
+  opts: IngestOptions,
+  listSources: (readOptions: ReadOptions) => Promise<IngestSource[]>
+): Promise<void> {
+  try {
+    if (!["run", "file"].includes(opts.dedupeScope)) {
+      throw new Error(`Invalid --dedupe-scope "${opts.dedupeScope}": expected run or file`);
+    }
+
+    if (!DUPLICATE_STRATEGIES.includes(opts.duplicates)) {
+      throw new Error(
+        `Invalid --duplicates "${opts.duplicates}": expected first, last, merge or error`
+      );
+    }
+
+    for (const [flag, action] of [
+      ["--disposable-emails", opts.disposableEmails],
+      ["--role-emails", opts.roleEmails],
+    ]) {
+      if (!SCREENING_ACTIONS.includes(action as ScreeningAction)) {
+        throw new Error(`Invalid ${flag} "${action}": expected reject, warn or tag`);
+      }
+    }
+
+    if (!Number.isInteger(opts.concurrency) || opts.concurrency < 1) {
+      throw new Error("Invalid --concurrency: expected a positive integer");
+    }
+
+    if (!(opts.requeueCooldown >= 0)) {
+      throw new Error("Invalid --requeue-cooldown: expected a number of seconds");
+    }
+
+    if (!(opts.rateLimit > 0)) {
+      throw new Error("Invalid --rate-limit: expected a positive number");
+    }
+    const limiter = createRateLimiter({ requestsPerSecond: opts.rateLimit });
+
+    const threshold = opts.duplicateThreshold;
+    if (threshold !== undefined && !(threshold > 0 && threshold <= 1)) {
+      throw new Error("Invalid --duplicate-threshold: expected a number between 0 and 1");
+    }
+
+    const reportTargets = opts.report.map(parseReportTarget);
+
+    const mapping = opts.mapping ? loadColumnMapping(opts.mapping) : undefined;
+    const schema = opts.schema ? loadSchema(opts.schema) : undefined;
+    const ruleConfig = opts.rules ? loadRules(opts.rules) : undefined;
+    const mergePolicies = opts.mergePolicies
+      ? loadMergePolicies(opts.mergePolicies, schema)
+      : undefined;
+    const plugins = opts.plugin.map(loadPlugin);
+    const screeningLists = createScreeningLists({
+      disposableDomains: opts.disposableList ? loadScreeningList(opts.disposableList) : [],
+      roleAccounts: opts.roleList ? loadScreeningList(opts.roleList) : [],
+    });
+    const sources = await listSources({
+      mapping,
+      schema,
+      lenient: opts.lenient,
+      format: opts.format,
+      delimiter: opts.delimiter,
+    });
+    // Dry runs write nothing, so there is nothing to undo
+    const runLog = opts.dryRun ? undefined : openRunLog(createRunId(), runLogDir(opts.stateDir));
+    const runEmails = new Set<string>();
+    const summaries: Record<string, ProcessingSummary> = {};
+    const duplicates: Record<string, DuplicateCluster[]> = {};
+    let rejects: LeadResult[] = [];
+    const reportInputs: RunReport["inputs"] = [];
+    const analyzeDuplicates =
+      opts.duplicateReport !== undefined || opts.holdDuplicates || threshold !== undefined;
+    let failedFiles = 0;
+    let transientFailures = 0;
+    const progress = opts.progress
+      ? createProgressReporter({ rate: () => limiter.rate })
+      : undefined;
+    const ingestor = new LeadIngestor({
+      client: createApiClient({
+        baseUrl: opts.apiUrl,
+        rateLimiter: limiter,
+        onRetry: progress?.retry,
+      }),
+      config: {
+        schema,
+        rules: ruleConfig?.rules,
+        sourceAliases: ruleConfig?.sourceAliases,
+        companyAliases: ruleConfig?.companyAliases,
+        email: {
+          foldPlusTags: opts.foldPlusTags,
+          foldGmailDots: opts.foldGmailDots,
+          disposableAction: opts.disposableEmails,
+          roleAction: opts.roleEmails,
+          lists: screeningLists,
+        },
+        duplicateStrategy: opts.duplicates,
+        concurrency: opts.concurrency,
+        dryRun: opts.dryRun,
+        mergePolicies,
+        addMissingCustomFields: opts.addMissingCustomFields,
+        plugins,
+        requeue: opts.requeue ? { cooldownMs: opts.requeueCooldown * 1000 } : undefined,
+        duplicateAnalysis: analyzeDuplicates
+          ? { threshold, hold: opts.holdDuplicates }
+          : undefined,
+      },
+    });
+
+    for (const { label, file, rows, count, onResults } of sources) {
+      logger.info(`Starting lead ingestion from ${label}`);
+      if (progress) {
+        // A file that cannot be read fails below, when it is processed
+        const total = Array.isArray(rows) ? rows.length : await count?.().catch(() => undefined);
+        progress.start(label, total);
+      }
+
+      // Stdin cannot be fingerprinted, and dry runs commit nothing
+      let journal: CheckpointJournal | undefined;
+      try {
+        if (file && !opts.dryRun) {
+          const fingerprint = await fingerprintFile(file);
+          journal = openCheckpointJournal(
+            checkpointPath(fingerprint, checkpointDir(opts.stateDir)),
+            { resume: opts.resume }
+          );
+          if (journal.completed.size > 0) {
+            logger.info(`Resuming ${label}: ${journal.completed.size} row(s) already done`);
+          }
+        }
 
-const opts = program.opts<{ file: string; apiUrl: string }>();
+        const processed = await ingestor.ingest(rows, {
+          processedEmails: opts.dedupeScope === "run" ? runEmails : undefined,
+          checkpoint: journal,
+          runLog,
+          onResult: progress?.record,
+        });
+        const { results, summary, duplicates: clusters, aborted } = processed;
+        summaries[label] = summary;
+        if (reportTargets.length > 0) reportInputs.push({ input: label, ...processed });
+        if (clusters) duplicates[label] = clusters;
+        if (opts.rejects) rejects = rejects.concat(results.filter(isRejected));
+        for (const { email, line, lead, original, error, transient } of results) {
+          if (!transient || !runLog) continue;
+          runLog.record({
+            kind: "failed",
+            email,
+            input: label,
+            line,
+            lead: original ?? lead,
+            error: error ?? "",
+          });
+          transientFailures++;
+        }
+        if (opts.dryRun) {
+          console.log(`\nPlan for ${label}:\n${formatPlan(results)}\n`);
+        } else {
+          onResults?.(results);
+        }
+        logger.info(`${summary.total} leads processed from ${label}`);
 
-async function main(): Promise<void> {
+        if (aborted !== undefined) {
+          // The rows before the failure stand; the file counts as failed
+          logger.error(`Failed to ingest the rest of ${label}: ${aborted}`);
+          journal?.close();
+          failedFiles++;
+        } else if (summary.errors === 0) {
+          journal?.discard();
+        } else if (journal) {
+          journal.close();
+          logger.info(
+            `Checkpoint kept at ${journal.path}; rerun with --resume to retry failed rows`
+          );
+        }
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        logger.error(`Failed to ingest ${label}: ${message}`);
+        journal?.close();
+        failedFiles++;
+      } finally {
+        progress?.finish();
+      }
+    }
+
+    if (runLog && runLog.size > 0) {
+      runLog.close();
+      const changes = runLog.size - transientFailures;
+      if (changes > 0) {
+        logger.info(
+          `Run ${runLog.id} made ${changes} change(s); roll back with: undo ${runLog.id}`
+        );
+      }
+      if (transientFailures > 0) {
+        logger.warn(
+          `${transientFailures} lead(s) failed transiently; retry with: retry-failed ${runLog.id}`
+        );
+      }
+    } else {
+      runLog?.discard();
+    }
+
+    if (opts.rejects) {
+      const count = writeRejects(opts.rejects, rejects);
+      logger.info(`${count} errored or skipped row(s) written to ${opts.rejects}`);
+    }
+
+    if (opts.duplicateReport) {
+      writeDuplicateReport(opts.duplicateReport, duplicates);
+      logger.info(`Duplicate report written to ${opts.duplicateReport}`);
+    }
+
+    const total = combineSummaries(Object.values(summaries));
+    if (reportTargets.length > 0) {
+      writeReports(reportTargets, {
+        // Only runs that wrote something keep their log
+        runId: runLog && runLog.size > 0 ? runLog.id : undefined,
+        dryRun: opts.dryRun,
+        summary: total,
+        inputs: reportInputs,
+      });
+      for (const { format, path } of reportTargets) {
+        logger.info(`${format} report written to ${path}`);
+      }
+    }
+    console.table(sources.length > 1 ? { ...summaries, TOTAL: total } : total);
+
+    if (total.errors > 0 || failedFiles > 0) {
+      logger.warn(
+        `Completed with ${total.errors} error(s) and ${failedFiles} failed file(s)`
+      );
+      process.exit(1);
+    }
+
+    logger.info(
+      opts.dryRun
+        ? "Dry run completed; no leads were written"
+        : "Lead ingestion completed successfully"
+    );
+    process.exit(0);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    logger.error(`Fatal error: ${message}`);
+    process.exit(1);
+  }
+}
+
+async function main(opts: IngestOptions): Promise<void> {
+  const paths = opts.file;
+  if (!paths) {
+    return program.error("error: required option '--file <paths...>' not specified");
+  }
+
+  await ingest(opts, async (readOptions) =>
+    (await resolveInputPaths(paths)).map((file) => ({
+      label: file === STDIN_PATH ? "stdin" : file,
+      file: file === STDIN_PATH ? undefined : file,
+      rows: readLeadRows(file, readOptions),
+      count: opts.countRows ? () => countLeadRows(file, readOptions) : undefined,
+    }))
+  );
+}
+
+/**
+ * Ingests the leads an earlier run gave up on after transient failures,
+ * grouped by the input they came from
+ */
+async function retryFailed(runId: string, opts: IngestOptions): Promise<void> {
+  await ingest(opts, async () => {
+    const dir = runLogDir(opts.stateDir);
+    const byInput = new Map<string, FailedEntry[]>();
+    for (const entry of pendingFailures(readRunLog(runId, dir))) {
+      byInput.set(entry.input, [...(byInput.get(entry.input) ?? []), entry]);
+    }
+
+    const count = [...byInput.values()].reduce((n, entries) => n + entries.length, 0);
+    logger.info(`Retrying ${count} lead(s) that failed transiently in run ${runId}`);
+    return [...byInput].map(([label, entries]) => ({
+      label,
+      rows: entries.map(({ line, lead }) => (line === undefined ? lead : { line, lead })),
+      // Leads that no longer fail transiently are not retried again
+      onResults: (results: LeadResult[]) => {
+        const resolved = entries.filter((_, i) => !results[i].transient);
+        if (resolved.length === 0) return;
+        const log = openRunLog(runId, dir, { append: true });
+        for (const { email, input, line } of resolved) {
+          log.record({ kind: "resolved", email, input, line });
+        }
+        log.close();
+      },
+    }));
+  });
+}
+
+async function undo(runId: string, opts: UndoOptions): Promise<void> {
   try {
-    process.env.API_BASE_URL = opts.apiUrl;
-    logger.info(`Starting lead ingestion from ${opts.file}`);
+    if (!(opts.rateLimit > 0)) {
+      throw new Error("Invalid --rate-limit: expected a positive number");
+    }
+    const client = createApiClient({
+      baseUrl: opts.apiUrl,
+      rateLimiter: createRateLimiter({ requestsPerSecond: opts.rateLimit }),
+    });
 
-    const leads = await parseCSVFile(opts.file);
-    logger.info(`${leads.length} leads loaded`);
+    const entries = readRunLog(runId, runLogDir(opts.stateDir)).filter(
+      (entry) => entry.kind === "created" || entry.kind === "updated"
+    );
+    logger.info(`Undoing run ${runId}: ${entries.length} change(s)`);
 
-    const { summary } = await processLeads(leads);
+    const results = await undoRun(entries, { removeCreated: opts.removeCreated, client });
+    console.table(results.map(({ email, action, details }) => ({ email, action, details })));
 
-    console.table(summary);
+    const count = (action: UndoAction) => results.filter((r) => r.action === action).length;
+    if (count("kept") > 0) {
+      logger.info(
+        `${count("kept")} lead(s) created by the run were kept; ` +
+          "rerun with --remove-created to delete them"
+      );
+    }
 
-    if (summary.errors > 0) {
-      logger.warn(`Completed with ${summary.errors} error(s)`);
+    if (count("error") > 0) {
+      logger.warn(`Undo completed with ${count("error")} error(s)`);
       process.exit(1);
     }
 
-    logger.info("Lead ingestion completed successfully");
+    logger.info(`Run ${runId} undone`);
     process.exit(0);
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
@@ -39,4 +554,4 @@ async function main(): Promise<void> {
   }
 }
 
-main();
\ No newline at end of file
+program.parse(process.argv);
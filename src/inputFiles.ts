@@ -0,0 +1,124 @@
+import { readdir, stat } from 'fs/promises';
+import { extname, join, relative, sep } from 'path';
+import { STDIN_PATH, SUPPORTED_EXTENSIONS } from './inputReader';
+
+const GLOB_CHARS = /[*?[]/;
+
+const hasGlob = (pattern: string): boolean => GLOB_CHARS.test(pattern);
+
+const isSupportedFile = (filePath: string): boolean =>
+  SUPPORTED_EXTENSIONS.includes(extname(filePath).toLowerCase());
+
+/**
+ * Converts a glob (*, ?, [...], **) to a regular expression over
+ * forward-slash relative paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const followedBySlash = pattern[i + 2] === '/';
+      source += followedBySlash ? '(?:.*/)?' : '.*';
+      i += followedBySlash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += pattern.slice(i, end + 1);
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Lists files below a directory, descending at most `depth` levels
+ */
+async function walk(dir: string, depth: number): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory() && depth > 1) {
+      files.push(...(await walk(fullPath, depth - 1)));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Expands a glob pattern into the matching files, sorted
+ */
+async function expandGlob(pattern: string): Promise<string[]> {
+  const segments = pattern.split(/[\\/]/);
+  const firstGlob = segments.findIndex(hasGlob);
+  const baseSegments = segments.slice(0, firstGlob);
+  const base = baseSegments.length === 0 ? '.' : baseSegments.join('/') || '/';
+  const rest = segments.slice(firstGlob);
+
+  const depth = rest.includes('**') ? Infinity : rest.length;
+  const matcher = globToRegExp(rest.join('/'));
+
+  let candidates: string[];
+  try {
+    candidates = await walk(base, depth);
+  } catch {
+    return [];
+  }
+
+  return candidates
+    .filter((file) => matcher.test(relative(base, file).split(sep).join('/')))
+    .sort();
+}
+
+/**
+ * Resolves --file arguments into concrete inputs: "-" stays as stdin,
+ * directories expand to their supported lead files, globs expand to matching
+ * files, and plain paths pass through (missing files fail when read).
+ * Duplicates are dropped, keeping the first occurrence.
+ */
+export async function resolveInputPaths(patterns: string[]): Promise<string[]> {
+  const resolved: string[] = [];
+
+  for (const pattern of patterns) {
+    if (pattern === STDIN_PATH) {
+      resolved.push(pattern);
+      continue;
+    }
+
+    if (hasGlob(pattern)) {
+      const matches = await expandGlob(pattern);
+      if (matches.length === 0) {
+        throw new Error(`No files match "${pattern}"`);
+      }
+      resolved.push(...matches);
+      continue;
+    }
+
+    const stats = await stat(pattern).catch(() => null);
+    if (stats?.isDirectory()) {
+      const files = (await walk(pattern, 1)).filter(isSupportedFile).sort();
+      if (files.length === 0) {
+        throw new Error(`No lead files found in directory "${pattern}"`);
+      }
+      resolved.push(...files);
+      continue;
+    }
+
+    resolved.push(pattern);
+  }
+
+  return [...new Set(resolved)];
+}
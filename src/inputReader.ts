@@ -0,0 +1,275 @@
+import { createReadStream } from 'fs';
+import { open } from 'fs/promises';
+import { extname } from 'path';
+import { isUtf8 } from 'buffer';
+import { Readable, Transform, pipeline } from 'stream';
+import {
+  ParsedRow,
+  ParseOptions,
+  describeReadError,
+  isFileSystemError,
+  parseCSVStream,
+} from './csvParser';
+import { parseJSONStream, parseNDJSONStream } from './jsonParser';
+import { Logger, createLogger } from './logger';
+
+const logger = createLogger('inputReader');
+
+export const INPUT_FORMATS = ['csv', 'tsv', 'json', 'ndjson'] as const;
+
+export type InputFormat = typeof INPUT_FORMATS[number];
+
+export type InputEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'latin1';
+
+export interface ReadOptions extends ParseOptions {
+  /** Overrides detection from the file extension */
+  format?: InputFormat;
+  /** Overrides encoding detection */
+  encoding?: InputEncoding;
+  /** Defaults to the shared winston logger */
+  logger?: Logger;
+}
+
+const EXTENSION_FORMATS: Record<string, InputFormat> = {
+  '.csv': 'csv',
+  '.txt': 'csv',
+  '.tsv': 'tsv',
+  '.tab': 'tsv',
+  '.json': 'json',
+  '.ndjson': 'ndjson',
+  '.jsonl': 'ndjson',
+};
+
+/** File extensions picked up when a directory is given as input */
+export const SUPPORTED_EXTENSIONS = Object.keys(EXTENSION_FORMATS);
+
+/** Input path that stands for standard input */
+export const STDIN_PATH = '-';
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+const SAMPLE_SIZE = 64 * 1024;
+
+/**
+ * Picks the input format from an explicit override or the file extension,
+ * then from the first character of the content, falling back to CSV
+ */
+export function detectFormat(
+  filePath: string,
+  override?: string,
+  sample?: string
+): InputFormat {
+  if (override) {
+    if (!INPUT_FORMATS.includes(override as InputFormat)) {
+      throw new Error(
+        `Unsupported format "${override}": expected one of ${INPUT_FORMATS.join(', ')}`
+      );
+    }
+    return override as InputFormat;
+  }
+
+  const byExtension = EXTENSION_FORMATS[extname(filePath).toLowerCase()];
+  if (byExtension) return byExtension;
+
+  const firstChar = sample?.trimStart()[0];
+  if (firstChar === '[') return 'json';
+  if (firstChar === '{') return 'ndjson';
+  return 'csv';
+}
+
+/**
+ * Detects the text encoding from a BOM, then from byte patterns
+ * (NUL bytes for BOM-less UTF-16, invalid UTF-8 for Latin-1)
+ */
+export function detectEncoding(sample: Buffer): InputEncoding {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) return 'utf-8';
+  if (sample[0] === 0xff && sample[1] === 0xfe) return 'utf-16le';
+  if (sample[0] === 0xfe && sample[1] === 0xff) return 'utf-16be';
+
+  const pairs = Math.floor(Math.min(sample.length, 512) / 2);
+  let evenNuls = 0;
+  let oddNuls = 0;
+  for (let i = 0; i < pairs; i++) {
+    if (sample[i * 2] === 0) evenNuls++;
+    if (sample[i * 2 + 1] === 0) oddNuls++;
+  }
+  if (pairs > 0 && oddNuls > pairs / 2) return 'utf-16le';
+  if (pairs > 0 && evenNuls > pairs / 2) return 'utf-16be';
+
+  // Ignore a multi-byte character cut off at the end of the sample
+  const lastNewline = sample.lastIndexOf(0x0a);
+  const complete = lastNewline > 0 ? sample.subarray(0, lastNewline) : sample;
+  return isUtf8(complete) ? 'utf-8' : 'latin1';
+}
+
+/**
+ * Picks the candidate delimiter that occurs most often (outside quotes)
+ * in the header line, defaulting to a comma
+ */
+export function sniffDelimiter(headerLine: string): string {
+  const counts = new Map<string, number>(CANDIDATE_DELIMITERS.map((d) => [d, 0]));
+  let quoted = false;
+
+  for (const char of headerLine) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && counts.has(char)) counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let best = ',';
+  for (const [delimiter, count] of counts) {
+    if (count > (counts.get(best) ?? 0)) best = delimiter;
+  }
+  return best;
+}
+
+/**
+ * Decodes a byte stream to text, dropping any BOM
+ */
+function decodeStream(input: Readable, encoding: InputEncoding): Readable {
+  const decoder = new TextDecoder(encoding);
+  const decoded = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      callback(null, decoder.decode(chunk, { stream: true }));
+    },
+    flush(callback) {
+      callback(null, decoder.decode());
+    },
+  });
+
+  return pipeline(input, decoded, () => {
+    // Errors reach the consumer through the decoded stream
+  });
+}
+
+/**
+ * Reads the first bytes of a file for format sniffing
+ */
+async function readSample(filePath: string): Promise<Buffer> {
+  try {
+    const handle = await open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(SAMPLE_SIZE);
+      const { bytesRead } = await handle.read(buffer, 0, SAMPLE_SIZE, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  } catch (error) {
+    throw describeReadError(error, filePath);
+  }
+}
+
+/**
+ * Takes chunks off a one-shot stream (such as stdin) until the first line
+ * is complete or SAMPLE_SIZE bytes arrived, for sniffing, and returns a
+ * stream that replays them followed by the rest
+ */
+async function peekStream(input: Readable): Promise<{ sample: Buffer; bytes: Readable }> {
+  const iterator = input[Symbol.asyncIterator]();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let newline = false;
+  while (!newline && size < SAMPLE_SIZE) {
+    const next = await iterator.next();
+    if (next.done) break;
+    const chunk = Buffer.from(next.value);
+    chunks.push(chunk);
+    size += chunk.length;
+    newline = chunk.includes(0x0a);
+  }
+  const sample = Buffer.concat(chunks);
+
+  async function* replay() {
+    if (sample.length > 0) yield sample;
+    for (;;) {
+      const next = await iterator.next();
+      if (next.done) return;
+      yield next.value;
+    }
+  }
+
+  return { sample, bytes: Readable.from(replay()) };
+}
+
+/**
+ * Sniffs format, encoding and delimiter from the sample and parses the bytes
+ */
+async function* parseBytes(
+  label: string,
+  bytes: Readable,
+  sample: Buffer,
+  options: ReadOptions
+): AsyncGenerator<ParsedRow> {
+  const encoding = options.encoding ?? detectEncoding(sample);
+  const sampleText = new TextDecoder(encoding).decode(sample);
+  const format = detectFormat(label, options.format, sampleText);
+  const text = decodeStream(bytes, encoding);
+
+  let delimiter = options.delimiter;
+  if (format === 'tsv') delimiter ??= '\t';
+  if (format === 'csv' && !delimiter) {
+    delimiter = sniffDelimiter(sampleText.split(/\r?\n/)[0]);
+  }
+
+  (options.logger ?? logger).debug('Reading input', { source: label, format, encoding, delimiter });
+
+  const parsers: Record<InputFormat, (input: Readable, opts: ParseOptions) => AsyncGenerator<ParsedRow>> = {
+    csv: parseCSVStream,
+    tsv: parseCSVStream,
+    json: parseJSONStream,
+    ndjson: parseNDJSONStream,
+  };
+
+  yield* parsers[format](text, { ...options, delimiter });
+}
+
+/**
+ * Reads leads from an arbitrary byte stream such as stdin. Without an
+ * explicit format, JSON and NDJSON are recognized from the content.
+ */
+export async function* readLeadStream(
+  input: Readable,
+  options: ReadOptions = {}
+): AsyncGenerator<ParsedRow> {
+  const { sample, bytes } = await peekStream(input);
+  yield* parseBytes('stdin', bytes, sample, options);
+}
+
+/**
+ * Reads a lead file in any supported format as ParsedRow objects. The format
+ * comes from `options.format`, the extension or the content; encoding and
+ * (for CSV) the delimiter are sniffed from the first bytes unless given
+ * explicitly. A path of "-" reads standard input.
+ */
+export async function* readLeadRows(
+  filePath: string,
+  options: ReadOptions = {}
+): AsyncGenerator<ParsedRow> {
+  if (filePath === STDIN_PATH) {
+    yield* readLeadStream(process.stdin, options);
+    return;
+  }
+
+  const sample = await readSample(filePath);
+  try {
+    yield* parseBytes(filePath, createReadStream(filePath), sample, options);
+  } catch (error) {
+    throw isFileSystemError(error) ? describeReadError(error, filePath) : error;
+  }
+}
+
+/**
+ * Counts the rows of a lead file by parsing it once, e.g. to show progress
+ * against a total. Standard input cannot be read twice and is not counted.
+ */
+export async function countLeadRows(
+  filePath: string,
+  options: ReadOptions = {}
+): Promise<number | undefined> {
+  if (filePath === STDIN_PATH) return undefined;
+
+  let count = 0;
+  const rows = readLeadRows(filePath, { ...options, lenient: true });
+  while (!(await rows.next()).done) count++;
+  return count;
+}
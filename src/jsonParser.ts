@@ -0,0 +1,113 @@
+import { Readable } from 'stream';
+import { createInterface } from 'readline';
+import { Lead } from './validator';
+import { DEFAULT_COLUMN_MAPPING, matchColumn } from './columnMapping';
+import { ParsedRow, ParseOptions } from './csvParser';
+import { DEFAULT_SCHEMA, assignField } from './schema';
+
+/**
+ * Maps a JSON object onto a Lead. Keys go through the same alias matching as
+ * CSV headers; absent keys become empty strings and are caught by validation.
+ */
+function mapObjectToLead(record: Record<string, unknown>, options: ParseOptions): Lead {
+  const mapping = options.mapping ?? DEFAULT_COLUMN_MAPPING;
+  const schema = options.schema ?? DEFAULT_SCHEMA;
+  const lead: Lead = { name: '', email: '', company: '', source: '' };
+
+  for (const [key, value] of Object.entries(record)) {
+    const field = matchColumn(key, mapping, schema);
+    if (field) assignField(lead, field, value == null ? '' : String(value), schema);
+  }
+  return lead;
+}
+
+/**
+ * Keeps the record's keys with their values as text; nested values stay JSON
+ */
+const toRawRecord = (record: Record<string, unknown>): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [
+      key,
+      value == null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value),
+    ])
+  );
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value != null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Builds a row for one decoded JSON value, or a row error in lenient mode
+ */
+function toParsedRow(value: unknown, line: number, options: ParseOptions): ParsedRow {
+  if (isPlainObject(value)) {
+    return { line, lead: mapObjectToLead(value, options), raw: toRawRecord(value) };
+  }
+
+  const message = `Malformed record ${line}: expected a JSON object`;
+  if (!options.lenient) throw new Error(message);
+  return { line, lead: mapObjectToLead({}, options), errors: [message] };
+}
+
+/**
+ * Parses newline-delimited JSON, one lead object per line
+ */
+export async function* parseNDJSONStream(
+  input: Readable,
+  options: ParseOptions = {}
+): AsyncGenerator<ParsedRow> {
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  let line = 0;
+
+  try {
+    for await (const text of lines) {
+      line++;
+      if (text.trim() === '') continue;
+
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        const message = `Malformed JSON on line ${line}: ${reason}`;
+        if (!options.lenient) throw new Error(message);
+        yield { line, lead: mapObjectToLead({}, options), errors: [message] };
+        continue;
+      }
+
+      yield toParsedRow(value, line, options);
+    }
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+}
+
+/**
+ * Parses a JSON array of lead objects. JSON arrays cannot be split safely
+ * without a full parser, so the document is read whole; `line` holds the
+ * 1-based position of each record in the array.
+ */
+export async function* parseJSONStream(
+  input: Readable,
+  options: ParseOptions = {}
+): AsyncGenerator<ParsedRow> {
+  let text = '';
+  for await (const chunk of input) {
+    text += chunk.toString();
+  }
+
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Malformed JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!Array.isArray(document)) {
+    throw new Error('Malformed JSON: expected an array of lead objects');
+  }
+
+  for (let i = 0; i < document.length; i++) {
+    yield toParsedRow(document[i], i + 1, options);
+  }
+}
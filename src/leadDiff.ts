@@ -0,0 +1,86 @@
+import { Lead } from './validator';
+import { CORE_FIELDS, FieldValue, fieldValuesEqual } from './schema';
+import { DEFAULT_COMPANY_ALIASES, companiesMatch } from './companyNormalizer';
+
+/**
+ * One field an update changes
+ */
+export interface FieldChange {
+  field: string;
+  /** Remote value; absent when the remote lead lacks the field */
+  before?: FieldValue;
+  after: FieldValue;
+}
+
+/**
+ * Partial update body: the email identifies the lead, every other field is
+ * optional and left untouched when absent
+ */
+export type LeadUpdate = Partial<Omit<Lead, 'email'>> & { email: string };
+
+export interface DiffOptions {
+  /**
+   * Also add custom fields the existing lead has no value for. Off by
+   * default: a store that does not keep custom fields never returns them,
+   * so every rerun would update the lead again.
+   */
+  addMissingCustomFields?: boolean;
+}
+
+/**
+ * Lists the fields an incoming lead would change on the existing one.
+ * The email is the lookup key, so it is never part of the diff. Companies
+ * are compared by canonical key, so "Acme, Inc." matches "ACME INC".
+ * Custom fields the incoming lead does not carry are left alone.
+ */
+export function diffLeads(
+  existing: Lead,
+  incoming: Lead,
+  companyAliases: Record<string, string> = DEFAULT_COMPANY_ALIASES,
+  options: DiffOptions = {}
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const field of CORE_FIELDS) {
+    if (field === 'email') continue;
+    const same =
+      field === 'company'
+        ? companiesMatch(existing.company, incoming.company, companyAliases)
+        : existing[field] === incoming[field];
+    if (!same) changes.push({ field, before: existing[field], after: incoming[field] });
+  }
+
+  for (const [field, after] of Object.entries(incoming.custom ?? {})) {
+    const before = existing.custom?.[field];
+    if (before === undefined && !options.addMissingCustomFields) continue;
+    if (!fieldValuesEqual(before, after)) {
+      changes.push({ field, ...(before !== undefined && { before }), after });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Builds the partial update that applies a set of changes
+ */
+export function toLeadUpdate(email: string, changes: FieldChange[]): LeadUpdate {
+  const update: LeadUpdate = { email };
+  for (const { field, after } of changes) {
+    if ((CORE_FIELDS as string[]).includes(field)) {
+      (update as Record<string, unknown>)[field] = after;
+    } else {
+      update.custom = { ...update.custom, [field]: after };
+    }
+  }
+  return update;
+}
+
+const formatValue = (value: FieldValue | undefined): string =>
+  value === undefined ? '(none)' : JSON.stringify(value);
+
+/**
+ * Formats a change as `company: "Old Corp" -> "New Corp"`
+ */
+export const formatChange = (change: FieldChange): string =>
+  `${change.field}: ${formatValue(change.before)} -> ${formatValue(change.after)}`;
@@ -0,0 +1,79 @@
+import { LeadStoreClient } from './apiClient';
+import { Logger, createLogger } from './logger';
+import { ReadOptions, readLeadRows } from './inputReader';
+import { LeadInput, ProcessOptions, ProcessResult, processLeads } from './leadProcessor';
+
+/**
+ * How every batch is processed: validation, screening, duplicates, merge
+ * policies, concurrency and requeueing, plus how input files are read
+ */
+export interface IngestorConfig
+  extends Omit<
+    ProcessOptions,
+    'client' | 'logger' | 'processedEmails' | 'checkpoint' | 'runLog' | 'onResult'
+  > {
+  /** Format, encoding, delimiter, column mapping and leniency of input files */
+  read?: Omit<ReadOptions, 'schema' | 'logger'>;
+}
+
+/**
+ * State of a single batch: emails seen by earlier batches, the checkpoint
+ * journal, the run log and a progress callback
+ */
+export type IngestRunOptions = Pick<
+  ProcessOptions,
+  'processedEmails' | 'checkpoint' | 'runLog' | 'onResult'
+>;
+
+export interface LeadIngestorOptions {
+  client: LeadStoreClient;
+  config?: IngestorConfig;
+  /** Defaults to the shared winston logger */
+  logger?: Logger;
+}
+
+/**
+ * Ingests leads into one lead store. Instances share no state, so several
+ * can run side by side against different stores.
+ */
+export class LeadIngestor {
+  private readonly client: LeadStoreClient;
+  private readonly config: IngestorConfig;
+  private readonly logger: Logger;
+
+  constructor(options: LeadIngestorOptions) {
+    this.client = options.client;
+    this.config = options.config ?? {};
+    this.logger = options.logger ?? createLogger('leadProcessor');
+  }
+
+  /**
+   * Processes an array or async stream of leads or parsed rows
+   */
+  ingest(
+    leads: Iterable<LeadInput> | AsyncIterable<LeadInput>,
+    run: IngestRunOptions = {}
+  ): Promise<ProcessResult> {
+    const { read, ...config } = this.config;
+    return processLeads(leads, { ...config, ...run, client: this.client, logger: this.logger });
+  }
+
+  /**
+   * Reads and processes a lead file in any supported format; "-" reads
+   * standard input
+   */
+  ingestFile(filePath: string, run: IngestRunOptions = {}): Promise<ProcessResult> {
+    return this.ingest(this.readFile(filePath), run);
+  }
+
+  /**
+   * Streams the rows of a lead file with the configured read options
+   */
+  readFile(filePath: string): AsyncGenerator<LeadInput> {
+    return readLeadRows(filePath, {
+      ...this.config.read,
+      schema: this.config.schema,
+      logger: this.logger,
+    });
+  }
+}
@@ -1,17 +1,88 @@
-import { Lead, validateLead } from './validator';
-import * as apiClient from './apiClient';
-import { createLogger } from './logger';
+import { Lead, ValidateOptions, validateLead } from './validator';
+import { LeadStoreClient } from './apiClient';
+import { Logger, createLogger } from './logger';
+import { ParsedRow } from './csvParser';
+import { EmailOptions, applyEmailScreening, normalizeEmail } from './emailNormalizer';
+import { DEFAULT_COMPANY_ALIASES } from './companyNormalizer';
+import { FieldChange, diffLeads, toLeadUpdate } from './leadDiff';
+import { MergePolicies, applyMergePolicies } from './mergePolicy';
+import {
+  DuplicateAnalysisOptions,
+  DuplicateCluster,
+  findDuplicateClusters,
+  heldIndices,
+} from './duplicateAnalyzer';
+import { DuplicateStrategy, Resolution, resolveDuplicates } from './duplicateResolver';
+import { KeyedTurn, createOrderedKeyedLock, mapConcurrent } from './workerPool';
+import { CheckpointJournal } from './checkpoint';
+import { RunLog } from './runLog';
+import { PluginError, RetriesExhaustedError } from './errors';
+import {
+  LeadHook,
+  LeadHookOutcome,
+  LeadPlugin,
+  runLeadHook,
+  runObserverHook,
+} from './plugins';
 
-const logger = createLogger('leadProcessor');
+const defaultLogger = createLogger('leadProcessor');
+
+/** Wait before transient failures get their second chance */
+export const DEFAULT_REQUEUE_COOLDOWN_MS = 30_000;
 
 export type LeadAction = 'created' | 'updated' | 'skipped' | 'error';
 
+/**
+ * Where processing of an errored or skipped lead stopped
+ */
+export type LeadStage =
+  | 'parse'
+  | 'validation'
+  | 'screening'
+  | 'duplicate'
+  | 'duplicate-review'
+  | 'lookup'
+  | 'unchanged'
+  | 'merge-policy'
+  | 'create'
+  | 'update'
+  | 'plugin'
+  | 'processing';
+
 export interface LeadResult {
   email: string;
+  /** Source line of the row, when the lead came from a parsed file */
+  line?: number;
   action: LeadAction;
+  /** Set on errors and skips */
+  stage?: LeadStage;
   details?: string;
+  error?: string;
   errors?: string[];
+  /** Failed warning-severity rules and screening warnings; the lead was still processed */
+  warnings?: string[];
+  /** Row this duplicate was folded into */
+  foldedInto?: number;
+  /** Rows folded into this one (--duplicates last or merge) */
+  foldedFrom?: number[];
+  /** Per-field before/after of an update (or of a planned one, in a dry run) */
+  changes?: FieldChange[];
+  /** Set when nothing was written: created/updated mean "would create/update" */
+  dryRun?: boolean;
+  /** Completed by an earlier session and restored from the checkpoint journal */
+  resumed?: boolean;
+  /** The API call failed for a reason that may pass (throttling, timeouts, 5xx) */
+  transient?: boolean;
+  /** Processed again after the main pass because the first attempt failed transiently */
+  requeued?: boolean;
   lead: Lead;
+  /**
+   * The lead as read, before normalization and plugin hooks; kept on
+   * transient failures so the row can be replayed as it was
+   */
+  original?: Lead;
+  /** Original input record of an errored or skipped row, when read from a file */
+  raw?: Record<string, string>;
 }
 
 export interface ProcessingSummary {
@@ -22,9 +93,90 @@ export interface ProcessingSummary {
   errors: number;
 }
 
+export type ProcessSummary = ProcessingSummary;
+
+export type LeadInput = Lead | ParsedRow;
+
+export interface ProcessOptions extends ValidateOptions {
+  /**
+   * Normalized emails already seen. Pass the same set to several calls to
+   * detect duplicates across batches (e.g. across input files).
+   */
+  processedEmails?: Set<string>;
+  /** Email folding and disposable/role screening */
+  email?: EmailOptions;
+  /**
+   * Looks for likely duplicates (similar name, company and email) before
+   * processing. This buffers the whole batch. With `hold`, every cluster
+   * member after the first is held back instead of being created.
+   */
+  duplicateAnalysis?: Pick<DuplicateAnalysisOptions, 'threshold'> & { hold?: boolean };
+  /** How repeated emails within the batch are resolved; defaults to "first" */
+  duplicateStrategy?: DuplicateStrategy;
+  /**
+   * Leads processed in parallel; defaults to 1. Results keep input order and
+   * leads sharing an email are still processed one at a time, in order.
+   */
+  concurrency?: number;
+  /** Validate and look leads up, but never create or update them */
+  dryRun?: boolean;
+  /** Which fields of an existing lead may be changed; defaults to overwriting all */
+  mergePolicies?: MergePolicies;
+  /** Add custom fields an existing lead has no value for (see DiffOptions) */
+  addMissingCustomFields?: boolean;
+  /**
+   * Journal of completed rows. Rows it already holds are not processed
+   * again; every other row that does not end in an error is recorded.
+   */
+  checkpoint?: CheckpointJournal;
+  /** Change log of the run; every create and update is recorded so it can be undone */
+  runLog?: RunLog;
+  /**
+   * Gives leads that failed transiently one more attempt once the main pass
+   * is done, after a cooldown (default 30s) that lets the API recover
+   */
+  requeue?: { cooldownMs?: number };
+  /**
+   * Called as each row completes, e.g. to show progress. Rows retried by the
+   * requeue pass are reported again, flagged `requeued`.
+   */
+  onResult?: (result: LeadResult) => void;
+  /** Where leads are looked up and written, e.g. a client from createApiClient */
+  client: LeadStoreClient;
+  logger?: Logger;
+  /** Hooks run around each lead and after the batch, in this order */
+  plugins?: LeadPlugin[];
+}
+
+/**
+ * ProcessOptions with the logger filled in
+ */
+type ResolvedOptions = ProcessOptions & Required<Pick<ProcessOptions, 'logger'>>;
+
+/**
+ * Duplicate tracking shared by the leads of one processLeads call
+ */
+interface BatchContext {
+  processedEmails: Set<string>;
+  /** Row kept for each email seen in this batch */
+  keptRows: Map<string, number>;
+  /**
+   * Serializes rows sharing an email from the duplicate check to the write.
+   * Turns are reserved in input order, before hooks can change the email.
+   */
+  reserveEmailTurn: () => KeyedTurn;
+}
+
 export interface ProcessResult {
   results: LeadResult[];
   summary: ProcessingSummary;
+  /** Likely duplicate clusters, when duplicate analysis is enabled */
+  duplicates?: DuplicateCluster[];
+  /**
+   * Why the input stopped early, e.g. a malformed row outside lenient mode.
+   * The rows read before it were processed and are in the results.
+   */
+  aborted?: string;
 }
 
 /**
@@ -33,14 +185,6 @@ export interface ProcessResult {
 const getErrorMessage = (error: unknown): string =>
   error instanceof Error ? error.message : 'Unknown error';
 
-/**
- * Checks if two leads have identical data
- */
-const leadsAreIdentical = (lead1: Lead, lead2: Lead): boolean =>
-  ['name', 'email', 'company', 'source'].every(
-    (key) => lead1[key as keyof Lead] === lead2[key as keyof Lead]
-  );
-
 /**
  * Creates a LeadResult object
  */
@@ -54,79 +198,264 @@ const createResult = (
   action,
   details,
   lead,
-  ...(errors && { errors }),
+  ...(errors && { error: errors.join('; '), errors }),
 });
 
+/**
+ * Creates the result of a failed API call. Failures that outlasted every
+ * retry are flagged as transient.
+ */
+const apiError = (lead: Lead, stage: LeadStage, details: string, error: unknown): LeadResult => ({
+  ...createResult(lead, 'error', details, [getErrorMessage(error)]),
+  stage,
+  ...(error instanceof RetriesExhaustedError && { transient: true }),
+});
+
+type VetoOutcome = Extract<LeadHookOutcome, { veto: string }>;
+
+/**
+ * Creates the result of a lead a plugin vetoed
+ */
+const vetoed = ({ lead, veto, plugin }: VetoOutcome): LeadResult => ({
+  ...createResult(lead, 'skipped', `Vetoed by plugin ${plugin}`, [veto]),
+  stage: 'plugin',
+});
+
+/**
+ * Creates the result of a lead whose plugin hook failed
+ */
+const pluginFailed = (lead: Lead, error: PluginError): LeadResult => ({
+  ...createResult(lead, 'error', `Plugin ${error.plugin} failed in ${error.hook}`, [
+    getErrorMessage(error.cause),
+  ]),
+  stage: 'plugin',
+});
+
+const logPluginFailure = (logger: Logger, email: string | undefined, error: PluginError) =>
+  logger.error('Plugin failed', {
+    ...(email !== undefined && { email }),
+    plugin: error.plugin,
+    hook: error.hook,
+    error: getErrorMessage(error.cause),
+  });
+
+/**
+ * Wraps a bare lead so every input carries the same row shape
+ */
+const toRow = (input: LeadInput): Omit<ParsedRow, 'line'> & { line?: number } =>
+  'lead' in input ? input : { lead: input };
+
+/**
+ * Normalizes the email of a lead, then validates and screens it. Returns the
+ * lead to send (canonical source, tidied company) and its warnings, or the
+ * error result. `after` names the hook whose output is being checked.
+ */
+function checkLead(
+  input: Lead,
+  options: ResolvedOptions,
+  after?: LeadHook
+): { lead: Lead; warnings: string[] } | LeadResult {
+  const { logger } = options;
+  const suffix = after ? ` after ${after}` : '';
+  const normalized: Lead = { ...input, email: normalizeEmail(input.email, options.email) };
+  const validation = validateLead(normalized, options);
+  if (!validation.isValid) {
+    logger.warn('Invalid lead', { email: normalized.email, issues: validation.issues });
+    return {
+      ...createResult(normalized, 'error', `Validation failed${suffix}`, validation.errors),
+      stage: 'validation',
+    };
+  }
+
+  const screening = applyEmailScreening(validation.normalizedLead ?? normalized, options.email);
+  if (screening.errors.length > 0) {
+    logger.warn('Email rejected by screening', {
+      email: screening.lead.email,
+      errors: screening.errors,
+    });
+    return {
+      ...createResult(screening.lead, 'error', `Email screening failed${suffix}`, screening.errors),
+      stage: 'screening',
+    };
+  }
+  return { lead: screening.lead, warnings: [...validation.warnings, ...screening.warnings] };
+}
+
 /**
  * Process a single lead against the API
  */
 async function processOneLead(
-  lead: Lead,
-  processedEmails: Set<string>
+  input: Lead,
+  row: number,
+  batch: BatchContext,
+  options: ResolvedOptions,
+  emailTurn: KeyedTurn,
+  held = false
 ): Promise<LeadResult> {
-  // Step 1: Validate lead
-  const validation = validateLead(lead);
-  if (!validation.isValid) {
-    logger.warn('Invalid lead', { email: lead.email, errors: validation.errors });
-    return createResult(lead, 'error', 'Validation failed', validation.errors);
+  const { logger } = options;
+  const plugins = options.plugins ?? [];
+  const hookContext = { row, dryRun: options.dryRun ?? false };
+
+  // Step 1: Let plugins adjust the lead as read, then normalize, validate and screen it
+  const prepared = await runLeadHook(plugins, 'beforeValidate', input, hookContext);
+  if ('veto' in prepared) return vetoed(prepared);
+  const checked = checkLead(prepared.lead, options);
+  if ('action' in checked) return checked;
+
+  // A transform can change any field, so what it returns is checked again
+  const transformed = await runLeadHook(plugins, 'transform', checked.lead, hookContext);
+  if ('veto' in transformed) return vetoed(transformed);
+  const rechecked =
+    transformed.lead === checked.lead ? checked : checkLead(transformed.lead, options, 'transform');
+  if ('action' in rechecked) return rechecked;
+  const lead = rechecked.lead;
+
+  const warnings = [...new Set([...checked.warnings, ...rechecked.warnings])];
+  if (warnings.length > 0) {
+    logger.warn('Lead has validation warnings', { email: lead.email, warnings });
   }
 
-  // Step 2: Check for duplicate email in batch
+  // Rows sharing an email must not race between lookup and create. Take the
+  // turn on the email the hooks settled on, in input order.
+  const result = await emailTurn.run(lead.email.toLowerCase(), () =>
+    writeLead(lead, row, batch, options, held)
+  );
+  return warnings.length > 0 ? { ...result, warnings } : result;
+}
+
+/**
+ * Checks a prepared lead against the batch and the store, then writes it
+ */
+async function writeLead(
+  lead: Lead,
+  row: number,
+  batch: BatchContext,
+  options: ResolvedOptions,
+  held: boolean
+): Promise<LeadResult> {
+  const { client, logger } = options;
+  const plugins = options.plugins ?? [];
+  const hookContext = { row, dryRun: options.dryRun ?? false };
+
+  // Step 2: Check for duplicate email in batch; a requeued row owns its email
   const emailLower = lead.email.toLowerCase();
-  if (processedEmails.has(emailLower)) {
+  if (batch.processedEmails.has(emailLower) && batch.keptRows.get(emailLower) !== row) {
     logger.warn('Duplicate email in batch', { email: lead.email });
-    return createResult(lead, 'skipped', 'Duplicate email in batch', ['Duplicate email in batch']);
+    const keptRow = batch.keptRows.get(emailLower);
+    return {
+      ...createResult(lead, 'skipped', 'Duplicate email in batch', ['Duplicate email in batch']),
+      stage: 'duplicate',
+      ...(keptRow !== undefined && { foldedInto: keptRow }),
+    };
   }
-  processedEmails.add(emailLower);
+  batch.processedEmails.add(emailLower);
+  batch.keptRows.set(emailLower, row);
 
   // Step 3: Lookup existing lead
   let existingLead: Lead | null;
   try {
-    existingLead = await apiClient.lookup(lead.email);
+    existingLead = await client.lookupLead(lead.email);
   } catch (error) {
-    const msg = getErrorMessage(error);
-    logger.error('API lookup failed', { email: lead.email, error: msg });
-    return createResult(lead, 'error', 'API lookup failed', [msg]);
+    logger.error('API lookup failed', { email: lead.email, error: getErrorMessage(error) });
+    return apiError(lead, 'lookup', 'API lookup failed', error);
+  }
+
+  // Step 4: Handle based on lookup result; plugins get a last look before the write
+  let result: LeadResult;
+  if (!existingLead && held) {
+    logger.warn('Lead held for duplicate review', { email: lead.email });
+    result = {
+      ...createResult(lead, 'skipped', 'Held for duplicate review'),
+      stage: 'duplicate-review',
+    };
+  } else {
+    const writing = await runLeadHook(plugins, 'beforeWrite', lead, {
+      ...hookContext,
+      existing: existingLead,
+    });
+    if ('veto' in writing) {
+      result = vetoed(writing);
+    } else {
+      // The hook cannot change the email (see runLeadHook), but any other field
+      const checked =
+        writing.lead === lead ? { lead } : checkLead(writing.lead, options, 'beforeWrite');
+      if ('action' in checked) {
+        result = checked;
+      } else if (existingLead) {
+        result = await handleExistingLead(checked.lead, existingLead, options);
+      } else {
+        result = await handleNewLead(checked.lead, options);
+      }
+    }
   }
 
-  // Step 4: Handle based on lookup result
-  return existingLead
-    ? await handleExistingLead(lead, existingLead)
-    : await handleNewLead(lead);
+  return result;
 }
 
 /**
  * Handle lead that already exists in API
  */
-async function handleExistingLead(lead: Lead, existingLead: Lead): Promise<LeadResult> {
-  if (leadsAreIdentical(existingLead, lead)) {
+async function handleExistingLead(
+  lead: Lead,
+  existingLead: Lead,
+  options: ResolvedOptions
+): Promise<LeadResult> {
+  const { client, logger } = options;
+  const companyAliases = { ...DEFAULT_COMPANY_ALIASES, ...options.companyAliases };
+  const differences = diffLeads(existingLead, lead, companyAliases, {
+    addMissingCustomFields: options.addMissingCustomFields,
+  });
+  if (differences.length === 0) {
     logger.info('Lead unchanged, skipping', { email: lead.email });
-    return createResult(lead, 'skipped', 'Lead data identical');
+    return { ...createResult(lead, 'skipped', 'Lead data identical'), stage: 'unchanged' };
+  }
+
+  const changes = applyMergePolicies(differences, options.mergePolicies);
+  if (changes.length === 0) {
+    logger.info('Merge policy allows no changes, skipping', { email: lead.email });
+    return {
+      ...createResult(lead, 'skipped', 'No changes allowed by merge policy'),
+      stage: 'merge-policy',
+    };
+  }
+
+  if (options.dryRun) {
+    return {
+      ...createResult(lead, 'updated', 'Would update'),
+      changes,
+      dryRun: true,
+    };
   }
 
   try {
-    await apiClient.update(lead);
-    logger.info('Lead updated', { email: lead.email });
-    return createResult(lead, 'updated', 'Lead updated successfully');
+    // Send only what changed; the API leaves absent fields untouched
+    await client.updateLead(toLeadUpdate(lead.email, changes));
+    options.runLog?.record({ kind: 'updated', email: lead.email, before: existingLead, changes });
+    logger.info('Lead updated', { email: lead.email, fields: changes.map((c) => c.field) });
+    return { ...createResult(lead, 'updated', 'Lead updated successfully'), changes };
   } catch (error) {
-    const msg = getErrorMessage(error);
-    logger.error('API update failed', { email: lead.email, error: msg });
-    return createResult(lead, 'error', 'API update failed', [msg]);
+    logger.error('API update failed', { email: lead.email, error: getErrorMessage(error) });
+    return apiError(lead, 'update', 'API update failed', error);
   }
 }
 
 /**
  * Handle new lead (not in API)
  */
-async function handleNewLead(lead: Lead): Promise<LeadResult> {
+async function handleNewLead(lead: Lead, options: ResolvedOptions): Promise<LeadResult> {
+  const { client, logger } = options;
+  if (options.dryRun) {
+    return { ...createResult(lead, 'created', 'Would create'), dryRun: true };
+  }
+
   try {
-    await apiClient.create(lead);
+    await client.createLead(lead);
+    options.runLog?.record({ kind: 'created', email: lead.email });
     logger.info('Lead created', { email: lead.email });
     return createResult(lead, 'created', 'Lead created successfully');
   } catch (error) {
-    const msg = getErrorMessage(error);
-    logger.error('API create failed', { email: lead.email, error: msg });
-    return createResult(lead, 'error', 'API create failed', [msg]);
+    logger.error('API create failed', { email: lead.email, error: getErrorMessage(error) });
+    return apiError(lead, 'create', 'API create failed', error);
   }
 }
 
@@ -142,25 +471,231 @@ const calculateSummary = (results: LeadResult[]): ProcessingSummary => ({
 });
 
 /**
- * Process a batch of leads
+ * Adds up the summaries of several batches
  */
-export async function processLeads(leads: Lead[]): Promise<ProcessResult> {
-  const processedEmails = new Set<string>();
-  const results: LeadResult[] = [];
+export const combineSummaries = (summaries: ProcessingSummary[]): ProcessingSummary =>
+  summaries.reduce(
+    (total, summary) => ({
+      total: total.total + summary.total,
+      created: total.created + summary.created,
+      updated: total.updated + summary.updated,
+      skipped: total.skipped + summary.skipped,
+      errors: total.errors + summary.errors,
+    }),
+    { total: 0, created: 0, updated: 0, skipped: 0, errors: 0 }
+  );
+
+/**
+ * Process a batch of leads. Accepts an array or an async stream of leads or
+ * parsed rows, so rows can flow from the parser straight into the API calls.
+ * Rows the parser flagged as malformed become per-row errors.
+ */
+export async function processLeads(
+  leads: Iterable<LeadInput> | AsyncIterable<LeadInput>,
+  processOptions: ProcessOptions
+): Promise<ProcessResult> {
+  const options: ResolvedOptions = {
+    ...processOptions,
+    logger: processOptions.logger ?? defaultLogger,
+  };
+  const { logger } = options;
+  const batch: BatchContext = {
+    processedEmails: options.processedEmails ?? new Set<string>(),
+    keptRows: new Map(),
+    reserveEmailTurn: createOrderedKeyedLock(),
+  };
+  const strategy = options.duplicateStrategy ?? 'first';
+
+  // Duplicate analysis and every strategy but "first" need the whole batch
+  let inputs = leads;
+  let duplicates: DuplicateCluster[] | undefined;
+  let held = new Set<number>();
+  let resolutions = new Map<number, Resolution>();
+  if (options.duplicateAnalysis || strategy !== 'first') {
+    const buffered: LeadInput[] = [];
+    for await (const input of leads) buffered.push(input);
+
+    const candidates = buffered
+      .map((input, index) => ({ index, ...toRow(input) }))
+      .filter((row) => !row.errors?.length);
 
-  for (const lead of leads) {
+    if (options.duplicateAnalysis) {
+      duplicates = findDuplicateClusters(candidates, {
+        threshold: options.duplicateAnalysis.threshold,
+        companyAliases: options.companyAliases,
+        email: options.email,
+      });
+      if (duplicates.length > 0) {
+        logger.warn('Likely duplicate leads found', { clusters: duplicates.length });
+      }
+      if (options.duplicateAnalysis.hold) held = heldIndices(duplicates);
+    }
+
+    if (strategy !== 'first') {
+      resolutions = resolveDuplicates(
+        candidates.map(({ index, line, lead }) => ({
+          position: index,
+          row: line ?? index + 1,
+          lead,
+        })),
+        strategy,
+        options.email
+      );
+    }
+    inputs = buffered;
+  }
+
+  // A stream that fails part way keeps the rows it already yielded, since
+  // they may have been written
+  let aborted: string | undefined;
+  async function* untilFailure(): AsyncGenerator<LeadInput> {
     try {
-      const result = await processOneLead(lead, processedEmails);
-      results.push(result);
+      yield* inputs;
     } catch (error) {
+      aborted = getErrorMessage(error);
+      logger.error('Input aborted', { error: aborted });
+    }
+  }
+
+  const processRow = async (input: LeadInput, position: number): Promise<LeadResult> => {
+    const { lead, line, raw, errors } = toRow(input);
+    // Errors and skips keep the original record so they can be exported
+    const withLine = (result: LeadResult): LeadResult => ({
+      ...result,
+      ...(line !== undefined && { line }),
+      ...(raw && (result.action === 'error' || result.action === 'skipped') && { raw }),
+    });
+
+    if (errors?.length) {
+      logger.warn('Malformed row', { line, errors });
+      return withLine({ ...createResult(lead, 'error', 'Malformed row', errors), stage: 'parse' });
+    }
+
+    const resolution = resolutions.get(position);
+    if (resolution?.kind === 'fold') {
+      logger.info('Duplicate row folded', { email: lead.email, into: resolution.into });
+      return withLine({
+        ...createResult(lead, 'skipped', resolution.details),
+        stage: 'duplicate',
+        foldedInto: resolution.into,
+      });
+    }
+    if (resolution?.kind === 'conflict') {
+      logger.warn('Duplicate email in batch', { email: lead.email, rows: resolution.others });
+      const message = `Duplicate email in batch: also in row(s) ${resolution.others.join(', ')}`;
+      return withLine({
+        ...createResult(lead, 'error', 'Duplicate email in batch', [message]),
+        stage: 'duplicate',
+      });
+    }
+
+    const toProcess = resolution?.kind === 'keep' ? resolution.lead : lead;
+    // Reserved before the first await, so rows line up in input order
+    const emailTurn = batch.reserveEmailTurn();
+    try {
+      const result = await processOneLead(
+        toProcess,
+        line ?? position + 1,
+        batch,
+        options,
+        emailTurn,
+        held.has(position)
+      );
+      return withLine({
+        ...result,
+        ...(resolution?.kind === 'keep' && { foldedFrom: resolution.foldedFrom }),
+        ...(result.transient && { original: toProcess }),
+      });
+    } catch (error) {
+      if (error instanceof PluginError) {
+        logPluginFailure(logger, lead.email, error);
+        return withLine(pluginFailed(toProcess, error));
+      }
       const msg = getErrorMessage(error);
       logger.error('Unexpected error processing lead', { email: lead.email, error: msg });
-      results.push(createResult(lead, 'error', 'Unexpected error', [msg]));
+      return withLine({
+        ...createResult(toProcess, 'error', 'Unexpected error', [msg]),
+        stage: 'processing',
+      });
+    } finally {
+      // Rows that stop before the write must not hold later rows back
+      emailTurn.skip();
+    }
+  };
+
+  // Rows finished by an earlier session still own their emails
+  const journal = options.checkpoint;
+  for (const { claimed, position, result } of journal?.completed.values() ?? []) {
+    if (!claimed) continue;
+    const key = result.email.toLowerCase();
+    batch.processedEmails.add(key);
+    batch.keptRows.set(key, result.line ?? position + 1);
+  }
+
+  // Inputs of rows that failed transiently, for the requeue pass
+  const requeued = new Map<number, LeadInput>();
+
+  // A failing afterLead hook turns its row into an error, like any other hook
+  const plugins = options.plugins ?? [];
+  const afterLead = async (result: LeadResult): Promise<LeadResult> => {
+    try {
+      await runObserverHook(plugins, 'afterLead', result);
+      return result;
+    } catch (error) {
+      logPluginFailure(logger, result.email, error as PluginError);
+      return { ...result, ...pluginFailed(result.lead, error as PluginError) };
+    }
+  };
+
+  const processOrResume = async (input: LeadInput, position: number): Promise<LeadResult> => {
+    const done = journal?.completed.get(position);
+    if (done) return { ...done.result, resumed: true };
+
+    const result = await afterLead(await processRow(input, position));
+    if (result.transient) requeued.set(position, input);
+    if (journal && !options.dryRun && result.action !== 'error') {
+      const row = result.line ?? position + 1;
+      const claimed = batch.keptRows.get(result.email.toLowerCase()) === row;
+      journal.record({ position, claimed, result });
     }
+    return result;
+  };
+
+  const concurrency = options.concurrency ?? 1;
+  const results = await mapConcurrent(untilFailure(), concurrency, async (input, position) => {
+    const result = await processOrResume(input, position);
+    options.onResult?.(result);
+    return result;
+  });
+
+  if (options.requeue && requeued.size > 0) {
+    const cooldownMs = options.requeue.cooldownMs ?? DEFAULT_REQUEUE_COOLDOWN_MS;
+    logger.warn('Retrying leads that failed transiently', { count: requeued.size, cooldownMs });
+    if (cooldownMs > 0) await new Promise((resolve) => setTimeout(resolve, cooldownMs));
+
+    const pending = [...requeued];
+    const retried = await mapConcurrent(pending, concurrency, async ([position, input]) => {
+      const result: LeadResult = { ...(await processOrResume(input, position)), requeued: true };
+      options.onResult?.(result);
+      return result;
+    });
+    pending.forEach(([position], i) => (results[position] = retried[i]));
   }
 
   const summary = calculateSummary(results);
   logger.info('Processing complete', summary);
 
-  return { results, summary };
+  const processed: ProcessResult = {
+    results,
+    summary,
+    ...(duplicates && { duplicates }),
+    ...(aborted !== undefined && { aborted }),
+  };
+  try {
+    await runObserverHook(plugins, 'afterRun', processed);
+  } catch (error) {
+    // No single lead to blame; the results stand
+    logPluginFailure(logger, undefined, error as PluginError);
+  }
+  return processed;
 }
@@ -0,0 +1,24 @@
+/**
+ * Library entry point: ingest leads from code instead of the CLI, e.g.
+ *
+ *   const ingestor = new LeadIngestor({ client: createApiClient({ baseUrl }) });
+ *   const { summary } = await ingestor.ingestFile('leads.csv');
+ */
+export { LeadIngestor } from './leadIngestor';
+export type { IngestRunOptions, IngestorConfig, LeadIngestorOptions } from './leadIngestor';
+export { DEFAULT_BASE_URL, createApiClient } from './apiClient';
+export type { ApiClient, ApiClientOptions, LeadStoreClient, RetryEvent } from './apiClient';
+export { createRateLimiter } from './rateLimiter';
+export type { RateLimiter, RateLimiterOptions } from './rateLimiter';
+export type { Logger } from './logger';
+export type { InputFormat, ReadOptions } from './inputReader';
+export type {
+  LeadInput,
+  LeadResult,
+  ProcessOptions,
+  ProcessResult,
+  ProcessingSummary,
+} from './leadProcessor';
+export { loadPlugin } from './plugins';
+export type { LeadHookContext, LeadHookResult, LeadPlugin } from './plugins';
+export { PluginError, RetriesExhaustedError } from './errors';
@@ -32,6 +32,16 @@ winston.addColors({
   debug: "blue",
 });
 
+/**
+ * The logging methods the library calls; a winston logger or `console` fits
+ */
+export interface Logger {
+  error(message: string, meta?: object): void;
+  warn(message: string, meta?: object): void;
+  info(message: string, meta?: object): void;
+  debug(message: string, meta?: object): void;
+}
+
 export function createLogger(module: string): winston.Logger {
   return baseLogger.child({ module });
 }
@@ -0,0 +1,111 @@
+import { readFileSync } from 'fs';
+import { CORE_FIELDS, DEFAULT_SCHEMA, FieldValue, LeadSchema } from './schema';
+import { FieldChange } from './leadDiff';
+
+export const MERGE_POLICIES = ['overwrite', 'fill-blank', 'never', 'prefer-non-empty'] as const;
+
+/**
+ * How an incoming value may replace the remote one:
+ * - overwrite: the file always wins
+ * - fill-blank: only set fields that are empty remotely
+ * - never: leave the remote value alone
+ * - prefer-non-empty: the file wins unless its value is empty
+ */
+export type MergePolicy = typeof MERGE_POLICIES[number];
+
+export interface MergePolicies {
+  /** Policy for fields without their own entry; defaults to "overwrite" */
+  default?: MergePolicy;
+  fields?: Record<string, MergePolicy>;
+}
+
+const isBlank = (value: FieldValue | undefined): boolean =>
+  value === undefined ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Checks whether a policy lets one change through
+ */
+function allows(policy: MergePolicy, change: FieldChange): boolean {
+  switch (policy) {
+    case 'overwrite':
+      return true;
+    case 'fill-blank':
+      return isBlank(change.before);
+    case 'never':
+      return false;
+    case 'prefer-non-empty':
+      return !isBlank(change.after);
+  }
+}
+
+/**
+ * Keeps the changes each field's policy allows
+ */
+export const applyMergePolicies = (
+  changes: FieldChange[],
+  policies: MergePolicies = {}
+): FieldChange[] =>
+  changes.filter((change) =>
+    allows(policies.fields?.[change.field] ?? policies.default ?? 'overwrite', change)
+  );
+
+/**
+ * Loads a JSON policy file ({ "default": "overwrite", "fields": { "company": "never" } }).
+ * Field names must be lead fields or custom fields from the schema.
+ */
+export function loadMergePolicies(
+  filePath: string,
+  schema: LeadSchema = DEFAULT_SCHEMA
+): MergePolicies {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException | null)?.code ?? '';
+    const message = error instanceof Error ? error.message : String(error);
+    const errorMessages: Record<string, string> = {
+      ENOENT: `Merge policy file not found: ${filePath}`,
+      EACCES: `Permission denied: ${filePath}`,
+    };
+    throw new Error(errorMessages[code] ?? `Invalid merge policy file ${filePath}: ${message}`);
+  }
+
+  const check = (policy: unknown, where: string): MergePolicy => {
+    if (!MERGE_POLICIES.includes(policy as MergePolicy)) {
+      throw new Error(
+        `Invalid merge policy file ${filePath}: ${where} has unknown policy "${policy}"; ` +
+          `expected ${MERGE_POLICIES.join(', ')}`
+      );
+    }
+    return policy as MergePolicy;
+  };
+
+  if (raw == null || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Invalid merge policy file ${filePath}: expected a JSON object`);
+  }
+
+  const config = raw as Record<string, unknown>;
+  const fieldPolicies = config.fields ?? {};
+  if (typeof fieldPolicies !== 'object' || fieldPolicies === null || Array.isArray(fieldPolicies)) {
+    throw new Error(`Invalid merge policy file ${filePath}: "fields" must map fields to policies`);
+  }
+
+  const knownFields = [...CORE_FIELDS, ...schema.fields.map((f) => f.name)];
+  const fields: Record<string, MergePolicy> = {};
+  for (const [field, policy] of Object.entries(fieldPolicies)) {
+    if (!knownFields.includes(field)) {
+      throw new Error(
+        `Invalid merge policy file ${filePath}: unknown field "${field}"; ` +
+          `expected one of ${knownFields.join(', ')}`
+      );
+    }
+    fields[field] = check(policy, `field "${field}"`);
+  }
+
+  return {
+    ...(config.default !== undefined && { default: check(config.default, '"default"') }),
+    fields,
+  };
+}
@@ -0,0 +1,55 @@
+import { LeadAction, LeadResult } from './leadProcessor';
+import { formatChange } from './leadDiff';
+
+const PLAN_ACTIONS: Record<LeadAction, string> = {
+  created: 'create',
+  updated: 'update',
+  skipped: 'skip',
+  error: 'reject',
+};
+
+/**
+ * Explains a single planned action: field changes for updates, the reason
+ * for skips and the errors for rejects
+ */
+function describe(result: LeadResult): string {
+  switch (result.action) {
+    case 'created':
+      return '';
+    case 'updated':
+      return (result.changes ?? []).map(formatChange).join('; ');
+    case 'skipped':
+      return result.details ?? '';
+    case 'error':
+      return result.error ?? result.details ?? '';
+  }
+}
+
+/**
+ * Formats dry-run results as an aligned plan, one row per lead:
+ *
+ *   ROW  ACTION  EMAIL             DETAILS
+ *   2    create  jane@example.com
+ *   3    update  bob@startup.com   company: "Startup Co" -> "Startup Inc"
+ */
+export function formatPlan(results: LeadResult[]): string {
+  const rows = [
+    ['ROW', 'ACTION', 'EMAIL', 'DETAILS'],
+    ...results.map((result, i) => [
+      String(result.line ?? i + 1),
+      PLAN_ACTIONS[result.action],
+      result.email,
+      describe(result),
+    ]),
+  ];
+
+  const widths = [0, 1, 2].map((column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => (column < 3 ? cell.padEnd(widths[column]) : cell))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n');
+}
@@ -0,0 +1,176 @@
+import { basename, extname, resolve } from 'path';
+import { Lead } from './validator';
+import { LeadResult, ProcessResult } from './leadProcessor';
+import { PluginError } from './errors';
+import { CORE_FIELDS } from './schema';
+
+/** Hooks that see a lead on its way in and may change or veto it */
+export const LEAD_HOOKS = ['beforeValidate', 'transform', 'beforeWrite'] as const;
+
+export type LeadHook = typeof LEAD_HOOKS[number];
+
+const PLUGIN_HOOKS: string[] = [...LEAD_HOOKS, 'afterLead', 'afterRun'];
+
+export interface LeadHookContext {
+  /** Source line of the row, or its 1-based position */
+  row: number;
+  dryRun: boolean;
+  /** beforeWrite only: the stored lead about to be updated, or null for a create */
+  existing?: Lead | null;
+}
+
+/**
+ * What a lead hook returns: a changed lead, a veto with its reason, or
+ * nothing to pass the lead on as it is
+ */
+export type LeadHookResult = Lead | { veto: string } | void;
+
+type LeadHookFunction = (
+  lead: Lead,
+  context: LeadHookContext
+) => LeadHookResult | Promise<LeadHookResult>;
+
+/**
+ * Company-specific steps around the processing of each lead:
+ * - beforeValidate gets the lead as read, before normalization and validation
+ * - transform gets the validated, normalized lead, before the duplicate check;
+ *   what it returns is normalized and validated again
+ * - beforeWrite gets the lead after lookup, before it is created or updated
+ *   (dry runs included, so the plan shows what would be written). The lead
+ *   was looked up by its email, so beforeWrite may not change it.
+ * - afterLead observes each lead's result; afterRun the result of the batch
+ * Hooks run in plugin order and may be async. A hook that throws turns its
+ * lead into an error.
+ */
+export interface LeadPlugin {
+  name: string;
+  beforeValidate?: LeadHookFunction;
+  transform?: LeadHookFunction;
+  beforeWrite?: LeadHookFunction;
+  afterLead?: (result: LeadResult) => void | Promise<void>;
+  afterRun?: (result: ProcessResult) => void | Promise<void>;
+}
+
+export type LeadHookOutcome = { lead: Lead } | { lead: Lead; veto: string; plugin: string };
+
+/** A lead has every core field as a string */
+const isLead = (value: unknown): value is Lead =>
+  typeof value === 'object' &&
+  value !== null &&
+  CORE_FIELDS.every((field) => typeof (value as Record<string, unknown>)[field] === 'string');
+
+/**
+ * Passes the lead through every plugin's hook in turn. Stops at the first
+ * veto; a failing hook, or one that returns something other than a lead or
+ * a veto, throws a PluginError. So does a beforeWrite hook that changes the
+ * email.
+ */
+export async function runLeadHook(
+  plugins: LeadPlugin[],
+  hook: LeadHook,
+  lead: Lead,
+  context: LeadHookContext
+): Promise<LeadHookOutcome> {
+  let current = lead;
+  for (const plugin of plugins) {
+    const fn = plugin[hook];
+    if (!fn) continue;
+
+    let outcome: LeadHookResult;
+    try {
+      outcome = await fn.call(plugin, current, context);
+    } catch (error) {
+      throw new PluginError(plugin.name, hook, error);
+    }
+
+    if (outcome == null) continue;
+    const { veto } = outcome as { veto?: unknown };
+    if (typeof veto === 'string') {
+      return { lead: current, veto, plugin: plugin.name };
+    }
+    if (!isLead(outcome)) {
+      throw new PluginError(
+        plugin.name,
+        hook,
+        new Error(`returned neither a lead (with ${CORE_FIELDS.join(', ')}) nor a veto`)
+      );
+    }
+    if (hook === 'beforeWrite' && outcome.email !== current.email) {
+      throw new PluginError(
+        plugin.name,
+        hook,
+        new Error('changed the email of a lead that was already looked up')
+      );
+    }
+    current = outcome;
+  }
+  return { lead: current };
+}
+
+/**
+ * Calls every plugin's afterLead or afterRun hook; a failing hook throws a
+ * PluginError
+ */
+export async function runObserverHook<K extends 'afterLead' | 'afterRun'>(
+  plugins: LeadPlugin[],
+  hook: K,
+  value: Parameters<NonNullable<LeadPlugin[K]>>[0]
+): Promise<void> {
+  for (const plugin of plugins) {
+    const fn = plugin[hook] as ((value: unknown) => void | Promise<void>) | undefined;
+    if (!fn) continue;
+    try {
+      await fn.call(plugin, value);
+    } catch (error) {
+      throw new PluginError(plugin.name, hook, error);
+    }
+  }
+}
+
+/**
+ * Loads a plugin module: its export (or default export) is an object with a
+ * `name` and hook functions. The name defaults to the file name.
+ */
+export function loadPlugin(filePath: string): LeadPlugin {
+  let resolved: string;
+  try {
+    resolved = require.resolve(resolve(filePath));
+  } catch {
+    throw new Error(`Plugin not found: ${filePath}`);
+  }
+
+  let exported: unknown;
+  try {
+    exported = require(resolved);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      (error as NodeJS.ErrnoException | null)?.code === 'EACCES'
+        ? `Permission denied: ${filePath}`
+        : `Invalid plugin ${filePath}: ${message}`
+    );
+  }
+
+  const plugin = (exported as { default?: unknown } | null | undefined)?.default ?? exported;
+  if (typeof plugin !== 'object' || plugin === null) {
+    throw new Error(`Invalid plugin ${filePath}: expected an object of hooks`);
+  }
+
+  for (const [key, value] of Object.entries(plugin)) {
+    if (key === 'name') continue;
+    if (!PLUGIN_HOOKS.includes(key)) {
+      throw new Error(
+        `Invalid plugin ${filePath}: unknown hook "${key}" (expected ${PLUGIN_HOOKS.join(', ')})`
+      );
+    }
+    if (typeof value !== 'function') {
+      throw new Error(`Invalid plugin ${filePath}: "${key}" must be a function`);
+    }
+  }
+
+  const { name } = plugin as { name?: unknown };
+  return {
+    ...(plugin as Omit<LeadPlugin, 'name'>),
+    name: typeof name === 'string' ? name : basename(filePath, extname(filePath)),
+  };
+}
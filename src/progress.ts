@@ -0,0 +1,200 @@
+import { LeadResult } from './leadProcessor';
+import { RetryEvent } from './apiClient';
+
+export interface ProgressState {
+  label: string;
+  /** Rows in the input; unknown for standard input */
+  total?: number;
+  done: number;
+  /** Rows restored from a checkpoint; done, but left out of the throughput */
+  resumed: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: number;
+  /** API retries since the input started */
+  retries: number;
+  startedAt: number;
+  /** Latest retry and when its wait ends */
+  backoff?: { event: RetryEvent; until: number };
+}
+
+export interface ProgressOptions {
+  stream?: NodeJS.WriteStream;
+  /** Redraw a live view in place; defaults to whether the stream is a TTY */
+  interactive?: boolean;
+  /** Redraw interval of the live view, or interval between plain progress lines */
+  intervalMs?: number;
+  now?: () => number;
+  /** Current request rate of the API rate limiter */
+  rate?: () => number;
+}
+
+export interface ProgressReporter {
+  start(label: string, total?: number): void;
+  record(result: LeadResult): void;
+  retry(event: RetryEvent): void;
+  finish(): void;
+}
+
+/**
+ * 75s → "1m15s"
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m${String(seconds % 60).padStart(2, '0')}s`;
+  return `${Math.floor(minutes / 60)}h${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+function describeRetry({ attempt, maxRetries, status, code }: RetryEvent): string {
+  const cause = status !== undefined ? `HTTP ${status}` : code ?? 'a network error';
+  return `retry ${attempt}/${maxRetries} after ${cause}`;
+}
+
+/**
+ * The progress view as lines: rows done, throughput and ETA; running
+ * counts; retry and backoff state
+ */
+export function formatProgress(state: ProgressState, now: number, rate?: number): string[] {
+  const { total, done } = state;
+  const elapsed = now - state.startedAt;
+  const throughput = elapsed > 0 ? (done - state.resumed) / (elapsed / 1000) : 0;
+
+  const position =
+    total !== undefined
+      ? `${done}/${total} rows (${total > 0 ? Math.floor((done / total) * 100) : 100}%)`
+      : `${done} rows`;
+  const eta =
+    total !== undefined && throughput > 0
+      ? `ETA ${formatDuration(((total - done) / throughput) * 1000)}`
+      : 'ETA --';
+
+  const retryParts: string[] = [];
+  if (state.backoff && state.backoff.until > now) {
+    const left = ((state.backoff.until - now) / 1000).toFixed(1);
+    retryParts.push(`${describeRetry(state.backoff.event)}, ${left}s left`);
+  }
+  retryParts.push(`${state.retries} ${state.retries === 1 ? 'retry' : 'retries'}`);
+  if (rate !== undefined) retryParts.push(`${rate.toFixed(1)} req/s`);
+
+  return [
+    `${state.label}: ${position}  ${throughput.toFixed(1)} rows/s  ${eta}  ` +
+      `elapsed ${formatDuration(elapsed)}`,
+    `created ${state.created}  updated ${state.updated}  skipped ${state.skipped}  ` +
+      `errors ${state.errors}`,
+    retryParts.join('  '),
+  ];
+}
+
+const COUNTERS = {
+  created: 'created',
+  updated: 'updated',
+  skipped: 'skipped',
+  error: 'errors',
+} as const;
+
+/**
+ * Shows the progress of an ingestion. On a TTY a live view is redrawn in
+ * place below the log output; elsewhere a plain progress line is printed
+ * every `intervalMs` (5s by default).
+ */
+export function createProgressReporter(options: ProgressOptions = {}): ProgressReporter {
+  const stream = options.stream ?? process.stdout;
+  const interactive = options.interactive ?? Boolean(stream.isTTY);
+  const intervalMs = options.intervalMs ?? (interactive ? 250 : 5000);
+  const now = options.now ?? Date.now;
+
+  let state: ProgressState | undefined;
+  let timer: NodeJS.Timeout | undefined;
+  let drawnLines = 0;
+  const write = stream.write;
+
+  const lines = (): string[] => (state ? formatProgress(state, now(), options.rate?.()) : []);
+
+  const clear = () => {
+    if (drawnLines > 0) write.call(stream, `\x1b[${drawnLines}F\x1b[J`);
+    drawnLines = 0;
+  };
+
+  const draw = () => {
+    const view = lines();
+    write.call(stream, view.map((line) => line + '\n').join(''));
+    drawnLines = view.length;
+  };
+
+  const redraw = () => {
+    clear();
+    draw();
+  };
+
+  const printLine = () => {
+    write.call(stream, `Progress ${lines().join(' | ')}\n`);
+  };
+
+  // Log output goes above the live view: clear it, write, draw it again
+  const writeAbove = function (this: unknown, ...args: unknown[]): boolean {
+    clear();
+    const result = (write as (...a: unknown[]) => boolean).apply(stream, args);
+    draw();
+    return result;
+  };
+
+  const stop = () => {
+    if (timer) clearInterval(timer);
+    timer = undefined;
+    if (stream.write === writeAbove) stream.write = write;
+  };
+
+  return {
+    start(label, total) {
+      stop();
+      state = {
+        label,
+        total,
+        done: 0,
+        resumed: 0,
+        created: 0,
+        updated: 0,
+        skipped: 0,
+        errors: 0,
+        retries: 0,
+        startedAt: now(),
+      };
+      if (interactive) {
+        stream.write = writeAbove as typeof stream.write;
+        draw();
+      }
+      timer = setInterval(interactive ? redraw : printLine, intervalMs);
+      timer.unref();
+    },
+
+    record(result) {
+      if (!state) return;
+      // A requeued row already counted as an error in the main pass
+      if (result.requeued) {
+        state.errors--;
+        state.done--;
+      }
+      state.done++;
+      if (result.resumed) state.resumed++;
+      state[COUNTERS[result.action]]++;
+    },
+
+    retry(event) {
+      if (!state) return;
+      state.retries++;
+      state.backoff = { event, until: now() + event.delayMs };
+    },
+
+    finish() {
+      if (!state) return;
+      stop();
+      if (interactive) redraw();
+      else printLine();
+      drawnLines = 0;
+      state = undefined;
+    },
+  };
+}
@@ -0,0 +1,109 @@
+export interface RateLimiterOptions {
+  /** Target requests per second; Infinity disables the bucket */
+  requestsPerSecond: number;
+  /** Tokens the bucket holds, i.e. the largest burst; defaults to the rate (at least 1) */
+  burst?: number;
+  /** Floor for the rate while backing off; defaults to a tenth of the target */
+  minRequestsPerSecond?: number;
+  /** Rate multiplier applied on every 429; defaults to 0.5 */
+  backoffFactor?: number;
+  /** Rate regained per successful request, as a fraction of the target; defaults to 0.05 */
+  recoveryStep?: number;
+  /** Clock and timer, replaceable in tests */
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface RateLimiter {
+  /** Waits until a request may be sent */
+  acquire(): Promise<void>;
+  /** Reports a successful request; the rate creeps back towards the target */
+  onSuccess(): void;
+  /** Reports a 429; cuts the rate and pauses every caller for `retryAfterMs` */
+  onThrottled(retryAfterMs?: number): void;
+  /** Current requests per second */
+  readonly rate: number;
+}
+
+const defaultSleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Creates a token-bucket limiter shared by every API call. The rate adapts
+ * to the server: each 429 cuts it (down to a floor) and each success wins
+ * part of it back (additive increase, multiplicative decrease). A 429's
+ * retry-after pauses all callers, even when the bucket itself is disabled.
+ * Waiting callers are served in arrival order.
+ */
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  const target = options.requestsPerSecond;
+  if (!(target > 0)) {
+    throw new Error(`Invalid rate limit ${target}: expected a positive number`);
+  }
+
+  const limited = Number.isFinite(target);
+  const burst = options.burst ?? Math.max(1, target);
+  const minRate = options.minRequestsPerSecond ?? target / 10;
+  const backoffFactor = options.backoffFactor ?? 0.5;
+  const recoveryStep = (options.recoveryStep ?? 0.05) * target;
+  const now = options.now ?? Date.now;
+  const sleep = options.sleep ?? defaultSleep;
+
+  let rate = target;
+  let tokens = burst;
+  let refilledAt = now();
+  let pausedUntil = 0;
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const time = now();
+    tokens = Math.min(burst, tokens + ((time - refilledAt) / 1000) * rate);
+    refilledAt = time;
+  };
+
+  const take = async (): Promise<void> => {
+    for (;;) {
+      const pause = pausedUntil - now();
+      if (pause > 0) {
+        await sleep(pause);
+        continue;
+      }
+      if (!limited) return;
+
+      refill();
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - tokens) / rate) * 1000));
+    }
+  };
+
+  return {
+    acquire() {
+      const turn = queue.then(take);
+      queue = turn.catch(() => undefined);
+      return turn;
+    },
+
+    onSuccess() {
+      if (limited && rate < target) {
+        refill();
+        rate = Math.min(target, rate + recoveryStep);
+      }
+    },
+
+    onThrottled(retryAfterMs = 0) {
+      if (limited) {
+        refill();
+        rate = Math.max(minRate, rate * backoffFactor);
+        tokens = Math.min(tokens, 0);
+      }
+      pausedUntil = Math.max(pausedUntil, now() + retryAfterMs);
+    },
+
+    get rate() {
+      return rate;
+    },
+  };
+}
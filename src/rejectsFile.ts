@@ -0,0 +1,73 @@
+import { writeFileSync } from 'fs';
+import { LeadResult } from './leadProcessor';
+
+/** Columns added after the original ones */
+export const REJECT_COLUMNS = ['error_stage', 'error_messages', 'line'] as const;
+
+export const isRejected = (result: LeadResult): boolean =>
+  result.action === 'error' || result.action === 'skipped';
+
+/**
+ * The row as it was read, or the lead's own fields for rows that never had
+ * a record (leads passed in directly, lines the CSV parser could not split)
+ */
+function originalRecord(result: LeadResult): Record<string, string> {
+  if (result.raw) return result.raw;
+
+  const { custom, ...core } = result.lead;
+  const record: Record<string, string> = {};
+  for (const [key, value] of Object.entries({ ...core, ...custom })) {
+    record[key] = Array.isArray(value) ? value.join(';') : String(value);
+  }
+  return record;
+}
+
+/**
+ * Quotes a value when it holds a delimiter, quote or line break
+ */
+const escapeCsv = (value: string): string =>
+  /[",\r\n]/.test(value) || value.trim() !== value ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Joins values into one comma-separated CSV line
+ */
+export const formatCsvRow = (values: string[]): string => values.map(escapeCsv).join(',');
+
+/**
+ * Formats errored and skipped rows as CSV in their original shape: the
+ * input's columns, in input order, followed by the stage they stopped at,
+ * their messages and their source line. Rows from inputs with different
+ * headers share one header row; columns a row lacks are left empty.
+ */
+export function formatRejects(results: LeadResult[]): string {
+  const rejected = results.filter(isRejected);
+  const records = rejected.map(originalRecord);
+
+  const columns: string[] = [];
+  const seen = new Set<string>(REJECT_COLUMNS);
+  for (const record of records) {
+    for (const column of Object.keys(record)) {
+      if (!seen.has(column)) columns.push(column);
+      seen.add(column);
+    }
+  }
+
+  const header = [...columns, ...REJECT_COLUMNS];
+  const rows = rejected.map((result, i) => [
+    ...columns.map((column) => records[i][column] ?? ''),
+    result.stage ?? '',
+    (result.errors ?? [result.details ?? '']).join('; '),
+    result.line === undefined ? '' : String(result.line),
+  ]);
+
+  return [header, ...rows].map(formatCsvRow).join('\n') + '\n';
+}
+
+/**
+ * Writes the rejects file; it is written even when empty, so a clean run
+ * leaves no stale rejects behind
+ */
+export function writeRejects(filePath: string, results: LeadResult[]): number {
+  writeFileSync(filePath, formatRejects(results));
+  return results.filter(isRejected).length;
+}
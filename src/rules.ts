@@ -0,0 +1,280 @@
+import { readFileSync } from 'fs';
+import { Lead } from './validator';
+import { closestMatch } from './similarity';
+
+export const RULE_TYPES = ['required', 'pattern', 'enum', 'minLength', 'maxLength'] as const;
+
+export type RuleType = typeof RULE_TYPES[number];
+
+export type RuleSeverity = 'error' | 'warning';
+
+/**
+ * Restricts a rule to leads where another field matches
+ */
+export interface RuleCondition {
+  field: string;
+  equals?: string;
+  in?: string[];
+  /** true: field must be non-empty; false: field must be empty */
+  present?: boolean;
+}
+
+export interface ValidationRule {
+  id: string;
+  field: string;
+  type: RuleType;
+  /** Defaults to "error"; warnings never block ingestion */
+  severity?: RuleSeverity;
+  message?: string;
+  /** pattern: regular expression source */
+  pattern?: string;
+  flags?: string;
+  /** enum: allowed values */
+  values?: string[];
+  caseSensitive?: boolean;
+  /** minLength / maxLength */
+  length?: number;
+  when?: RuleCondition;
+  /** Set to false in a config file to drop a default rule */
+  enabled?: boolean;
+}
+
+export interface ValidationIssue {
+  ruleId: string;
+  field: string;
+  severity: RuleSeverity;
+  message: string;
+  /** Closest allowed value, for failed enum rules */
+  suggestion?: string;
+}
+
+/**
+ * Contents of a rules file
+ */
+export interface RuleConfig {
+  rules: ValidationRule[];
+  /** Extra source spellings mapped to canonical sources */
+  sourceAliases: Record<string, string>;
+  /** Extra company spellings mapped to the name to write */
+  companyAliases: Record<string, string>;
+}
+
+export const VALID_SOURCES = [
+  'LinkedIn',
+  'Webinar',
+  'Website',
+  'Conference',
+  'Referral',
+  'Twitter',
+] as const;
+
+// Strong email regex - no spaces, requires @, proper format
+export const EMAIL_PATTERN = '^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$';
+
+export const DEFAULT_RULES: ValidationRule[] = [
+  { id: 'name.required', field: 'name', type: 'required', message: 'Name is required' },
+  { id: 'company.required', field: 'company', type: 'required', message: 'Company is required' },
+  { id: 'email.required', field: 'email', type: 'required', message: 'Invalid email format' },
+  {
+    id: 'email.format',
+    field: 'email',
+    type: 'pattern',
+    pattern: EMAIL_PATTERN,
+    message: 'Invalid email format',
+  },
+  { id: 'source.required', field: 'source', type: 'required', message: 'Source is required' },
+  {
+    id: 'source.allowed',
+    field: 'source',
+    type: 'enum',
+    values: [...VALID_SOURCES],
+    caseSensitive: true,
+    message: 'Invalid source',
+  },
+];
+
+/**
+ * Reads a core or custom field as a string; lists are joined with commas
+ */
+export function getFieldValue(lead: Lead, field: string): string {
+  const value =
+    field in lead && field !== 'custom'
+      ? (lead as unknown as Record<string, unknown>)[field]
+      : lead.custom?.[field];
+
+  if (value == null) return '';
+  return Array.isArray(value) ? value.join(',') : String(value);
+}
+
+const isBlank = (value: string): boolean => value.trim() === '';
+
+const label = (field: string): string => field.charAt(0).toUpperCase() + field.slice(1);
+
+const DEFAULT_MESSAGES: Record<RuleType, (rule: ValidationRule) => string> = {
+  required: (rule) => `${label(rule.field)} is required`,
+  pattern: (rule) => `Invalid ${rule.field} format`,
+  enum: (rule) => `${label(rule.field)} must be one of: ${rule.values?.join(', ')}`,
+  minLength: (rule) => `${label(rule.field)} must be at least ${rule.length} characters`,
+  maxLength: (rule) => `${label(rule.field)} must be at most ${rule.length} characters`,
+};
+
+/**
+ * Checks whether a rule's `when` condition holds for a lead
+ */
+function conditionHolds(lead: Lead, condition: RuleCondition | undefined): boolean {
+  if (!condition) return true;
+
+  const value = getFieldValue(lead, condition.field).trim();
+  if (condition.present !== undefined && condition.present === isBlank(value)) return false;
+  if (condition.equals !== undefined && value !== condition.equals) return false;
+  if (condition.in !== undefined && !condition.in.includes(value)) return false;
+  return true;
+}
+
+/**
+ * Checks a single rule. Everything but `required` passes on blank values,
+ * leaving blanks to the required rules.
+ */
+function rulePasses(rule: ValidationRule, value: string): boolean {
+  if (rule.type === 'required') return !isBlank(value);
+  if (isBlank(value)) return true;
+
+  switch (rule.type) {
+    case 'pattern':
+      return new RegExp(rule.pattern ?? '', rule.flags).test(value);
+    case 'enum':
+      return rule.caseSensitive
+        ? (rule.values ?? []).includes(value)
+        : (rule.values ?? []).some((v) => v.toLowerCase() === value.toLowerCase());
+    case 'minLength':
+      return value.trim().length >= (rule.length ?? 0);
+    case 'maxLength':
+      return value.trim().length <= (rule.length ?? Infinity);
+  }
+}
+
+/**
+ * Runs every enabled rule against a lead and returns the failures
+ */
+export function evaluateRules(
+  lead: Lead,
+  rules: ValidationRule[] = DEFAULT_RULES
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const failedFields = new Set<string>();
+
+  for (const rule of rules) {
+    if (rule.enabled === false || !conditionHolds(lead, rule.when)) continue;
+
+    // One error per field: a missing value is not also reported as malformed
+    const errorKey = `${rule.field}:${rule.severity ?? 'error'}`;
+    if (failedFields.has(errorKey)) continue;
+
+    const value = getFieldValue(lead, rule.field);
+    if (!rulePasses(rule, value)) {
+      failedFields.add(errorKey);
+
+      const message = rule.message ?? DEFAULT_MESSAGES[rule.type](rule);
+      const suggestion =
+        rule.type === 'enum' ? closestMatch(value.trim(), rule.values ?? []) : undefined;
+
+      issues.push({
+        ruleId: rule.id,
+        field: rule.field,
+        severity: rule.severity ?? 'error',
+        message: suggestion
+          ? `${message}: "${value.trim()}" (did you mean "${suggestion}"?)`
+          : message,
+        ...(suggestion && { suggestion }),
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validates one rule definition from a config file
+ */
+function checkRule(rule: ValidationRule, filePath: string): void {
+  const fail = (reason: string) => {
+    throw new Error(`Invalid rules file ${filePath}: rule "${rule.id}" ${reason}`);
+  };
+
+  if (typeof rule.field !== 'string' || rule.field === '') fail('needs a field');
+  if (!RULE_TYPES.includes(rule.type)) fail(`has unknown type "${rule.type}"`);
+  if (rule.severity && !['error', 'warning'].includes(rule.severity)) {
+    fail(`has unknown severity "${rule.severity}"`);
+  }
+  if (rule.type === 'pattern') {
+    try {
+      new RegExp(rule.pattern ?? '', rule.flags);
+    } catch (error) {
+      fail(`has an invalid pattern: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (rule.type === 'enum' && (!Array.isArray(rule.values) || rule.values.length === 0)) {
+    fail('needs a non-empty "values" list');
+  }
+  if ((rule.type === 'minLength' || rule.type === 'maxLength') && typeof rule.length !== 'number') {
+    fail('needs a numeric "length"');
+  }
+  if (rule.when && typeof rule.when.field !== 'string') fail('has a condition without a field');
+}
+
+/**
+ * Loads a JSON rules file
+ * ({ "rules": [...], "sourceAliases": {...}, "companyAliases": {...} }).
+ * Rules override the defaults by id (set "enabled": false to drop one);
+ * new ids are appended.
+ */
+export function loadRules(filePath: string): RuleConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException | null)?.code ?? '';
+    const message = error instanceof Error ? error.message : String(error);
+    const errorMessages: Record<string, string> = {
+      ENOENT: `Rules file not found: ${filePath}`,
+      EACCES: `Permission denied: ${filePath}`,
+    };
+    throw new Error(errorMessages[code] ?? `Invalid rules file ${filePath}: ${message}`);
+  }
+
+  const config = raw != null && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  if (!Array.isArray(config.rules ?? [])) {
+    throw new Error(`Invalid rules file ${filePath}: expected a "rules" array`);
+  }
+
+  const readAliases = (key: string, target: string): Record<string, string> => {
+    const aliases = config[key] ?? {};
+    if (
+      typeof aliases !== 'object' ||
+      aliases === null ||
+      Array.isArray(aliases) ||
+      !Object.values(aliases).every((v) => typeof v === 'string')
+    ) {
+      throw new Error(`Invalid rules file ${filePath}: "${key}" must map aliases to ${target}`);
+    }
+    return aliases as Record<string, string>;
+  };
+  const sourceAliases = readAliases('sourceAliases', 'source names');
+  const companyAliases = readAliases('companyAliases', 'company names');
+
+  const rules = [...DEFAULT_RULES];
+  for (const rule of (config.rules ?? []) as ValidationRule[]) {
+    if (typeof rule?.id !== 'string' || rule.id === '') {
+      throw new Error(`Invalid rules file ${filePath}: every rule needs an id`);
+    }
+
+    const existing = rules.findIndex((r) => r.id === rule.id);
+    const merged = existing === -1 ? rule : { ...rules[existing], ...rule };
+    checkRule(merged, filePath);
+
+    if (existing === -1) rules.push(merged);
+    else rules[existing] = merged;
+  }
+
+  return { rules, sourceAliases, companyAliases };
+}
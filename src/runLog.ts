@@ -0,0 +1,153 @@
+import { randomBytes } from 'crypto';
+import {
+  closeSync,
+  fdatasyncSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  rmSync,
+  writeSync,
+} from 'fs';
+import { join } from 'path';
+import { Lead } from './validator';
+import { FieldChange } from './leadDiff';
+
+export const RUN_LOG_DIR = join('.lead-ingest', 'runs');
+
+/**
+ * One write made by a run. Updates keep the remote lead as it was before
+ * the run touched it, so the change can be rolled back. Leads that still
+ * failed transiently after the retry pass are kept too, as they were read,
+ * so retry-failed can process them again; once it has, it appends a
+ * `resolved` entry for each one that no longer failed transiently.
+ */
+export type RunLogEntry =
+  | { kind: 'created'; email: string }
+  | { kind: 'updated'; email: string; before: Lead; changes: FieldChange[] }
+  | FailedEntry
+  | { kind: 'resolved'; email: string; input: string; line?: number };
+
+export interface FailedEntry {
+  kind: 'failed';
+  email: string;
+  input: string;
+  line?: number;
+  /** The lead as read, before normalization and plugin hooks */
+  lead: Lead;
+  error: string;
+}
+
+export interface RunLog {
+  id: string;
+  path: string;
+  /** Entries recorded so far by this session */
+  readonly size: number;
+  /** Appends an entry and flushes it to disk */
+  record(entry: RunLogEntry): void;
+  close(): void;
+  /** Closes and deletes the log, e.g. when the run wrote nothing */
+  discard(): void;
+}
+
+/**
+ * Run IDs sort by start time: 20240101T120000Z-1a2b3c
+ */
+export function createRunId(date: Date = new Date()): string {
+  const stamp = date.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+  return `${stamp}-${randomBytes(3).toString('hex')}`;
+}
+
+export const runLogPath = (runId: string, dir: string = RUN_LOG_DIR): string =>
+  join(dir, `${runId}.ndjson`);
+
+/**
+ * Starts the change log of a new run, or with `append` adds to the log of
+ * an earlier one
+ */
+export function openRunLog(
+  runId: string,
+  dir: string = RUN_LOG_DIR,
+  options: { append?: boolean } = {}
+): RunLog {
+  const filePath = runLogPath(runId, dir);
+  mkdirSync(dir, { recursive: true });
+  const fd = openSync(filePath, options.append ? 'a' : 'wx');
+  let open = true;
+  let size = 0;
+
+  const close = () => {
+    if (open) closeSync(fd);
+    open = false;
+  };
+
+  return {
+    id: runId,
+    path: filePath,
+    get size() {
+      return size;
+    },
+    record(entry) {
+      writeSync(fd, JSON.stringify(entry) + '\n');
+      fdatasyncSync(fd);
+      size++;
+    },
+    close,
+    discard() {
+      close();
+      rmSync(filePath, { force: true });
+    },
+  };
+}
+
+/**
+ * Reads the entries of a run's change log, in the order they were made. A
+ * torn last line from a crash is ignored.
+ */
+export function readRunLog(runId: string, dir: string = RUN_LOG_DIR): RunLogEntry[] {
+  if (!/^[\w.-]+$/.test(runId)) {
+    throw new Error(`Invalid run ID "${runId}"`);
+  }
+
+  const filePath = runLogPath(runId, dir);
+  let content: string;
+  try {
+    content = readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException | null)?.code ?? '';
+    const message = error instanceof Error ? error.message : String(error);
+    const errorMessages: Record<string, string> = {
+      ENOENT: `Run log not found for run ${runId}: ${filePath}`,
+      EACCES: `Permission denied: ${filePath}`,
+    };
+    throw new Error(errorMessages[code] ?? `Invalid run log ${filePath}: ${message}`);
+  }
+
+  const lines = content.split('\n').filter((line) => line.trim() !== '');
+  const entries: RunLogEntry[] = [];
+  lines.forEach((line, i) => {
+    try {
+      entries.push(JSON.parse(line) as RunLogEntry);
+    } catch (error) {
+      if (i < lines.length - 1) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid run log ${filePath}: line ${i + 1}: ${message}`);
+      }
+    }
+  });
+  return entries;
+}
+
+const failureKey = (entry: { email: string; input: string; line?: number }): string =>
+  JSON.stringify([entry.input, entry.line ?? null, entry.email]);
+
+/**
+ * The failed leads of a run that retry-failed has not resolved yet
+ */
+export function pendingFailures(entries: RunLogEntry[]): FailedEntry[] {
+  const resolved = new Set(
+    entries.flatMap((entry) => (entry.kind === 'resolved' ? [failureKey(entry)] : []))
+  );
+  return entries.filter(
+    (entry): entry is FailedEntry => entry.kind === 'failed' && !resolved.has(failureKey(entry))
+  );
+}
@@ -0,0 +1,233 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { LeadResult, ProcessResult, ProcessingSummary } from './leadProcessor';
+import { formatChange } from './leadDiff';
+import { formatCsvRow } from './rejectsFile';
+
+export const REPORT_FORMATS = ['json', 'csv', 'junit', 'html'] as const;
+
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+export interface ReportTarget {
+  format: ReportFormat;
+  path: string;
+}
+
+/**
+ * Everything a run produced: each input's ProcessResult and the totals
+ */
+export interface RunReport {
+  runId?: string;
+  dryRun?: boolean;
+  summary: ProcessingSummary;
+  inputs: Array<{ input: string } & ProcessResult>;
+}
+
+/**
+ * Parses a `--report` value such as `junit:reports/leads.xml`
+ */
+export function parseReportTarget(spec: string): ReportTarget {
+  const separator = spec.indexOf(':');
+  const format = spec.slice(0, separator) as ReportFormat;
+  const path = spec.slice(separator + 1);
+  if (separator < 0 || !REPORT_FORMATS.includes(format) || path === '') {
+    throw new Error(
+      `Invalid --report "${spec}": expected <format>:<path> with format ` +
+        REPORT_FORMATS.join(', ')
+    );
+  }
+  return { format, path };
+}
+
+/**
+ * One line per result: the messages of an error, the reason for a skip, the
+ * field changes of an update
+ */
+function describe(result: LeadResult): string {
+  if (result.action === 'error') return (result.errors ?? [result.details ?? '']).join('; ');
+  if (result.action === 'updated' && result.changes) {
+    return result.changes.map(formatChange).join('; ');
+  }
+  return result.details ?? '';
+}
+
+const rowLabel = (result: LeadResult, index: number): string =>
+  String(result.line ?? index + 1);
+
+export const formatJsonReport = (report: RunReport): string =>
+  JSON.stringify(report, null, 2) + '\n';
+
+/**
+ * One CSV row per lead, across all inputs
+ */
+export function formatCsvReport(report: RunReport): string {
+  const header = ['input', 'row', 'email', 'action', 'stage', 'details', 'errors', 'warnings'];
+  const rows = report.inputs.flatMap(({ input, results }) =>
+    results.map((result, i) => [
+      input,
+      rowLabel(result, i),
+      result.email,
+      result.action,
+      result.stage ?? '',
+      result.action === 'error' ? result.details ?? '' : describe(result),
+      (result.errors ?? []).join('; '),
+      (result.warnings ?? []).join('; '),
+    ])
+  );
+  return [header, ...rows].map(formatCsvRow).join('\n') + '\n';
+}
+
+/**
+ * Escapes text for XML and HTML content and attribute values
+ */
+const escapeMarkup = (value: string): string =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * JUnit XML: one test suite per input and one test case per row, so CI
+ * shows errored rows as failures and skipped rows as skipped tests
+ */
+export function formatJUnitReport(report: RunReport): string {
+  const { summary } = report;
+  const suites = report.inputs.map(({ input, results, summary: counts }) => {
+    const cases = results.map((result, i) => {
+      const name = escapeMarkup(`row ${rowLabel(result, i)}: ${result.email}`);
+      const open = `    <testcase classname="${escapeMarkup(input)}" name="${name}"`;
+      const message = escapeMarkup(result.details ?? '');
+      if (result.action === 'error') {
+        return (
+          `${open}>\n` +
+          `      <failure message="${message}" type="${result.stage ?? 'error'}">` +
+          `${escapeMarkup(describe(result))}</failure>\n` +
+          '    </testcase>'
+        );
+      }
+      if (result.action === 'skipped') {
+        return `${open}>\n      <skipped message="${message}"/>\n    </testcase>`;
+      }
+      return `${open}/>`;
+    });
+
+    return [
+      `  <testsuite name="${escapeMarkup(input)}" tests="${counts.total}" ` +
+        `failures="${counts.errors}" skipped="${counts.skipped}">`,
+      ...cases,
+      '  </testsuite>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="lead-ingest" tests="${summary.total}" ` +
+      `failures="${summary.errors}" skipped="${summary.skipped}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+const HTML_COLUMNS = ['Input', 'Row', 'Email', 'Action', 'Stage', 'Details', 'Warnings'];
+
+const HTML_STYLE = `
+  body { font: 14px system-ui, sans-serif; margin: 2rem; color: #222; }
+  .counts { display: flex; gap: 1rem; margin: 1rem 0; }
+  .counts div { padding: .5rem 1rem; border-radius: 4px; background: #f2f2f2; }
+  .counts b { display: block; font-size: 1.5rem; }
+  table { border-collapse: collapse; width: 100%; margin-top: 1rem; }
+  th, td { text-align: left; padding: .3rem .6rem; border-bottom: 1px solid #ddd; }
+  tr.error td { background: #fdecea; }
+  tr.skipped td { color: #777; }`;
+
+// Hides rows that do not match the action filter and search text
+const HTML_SCRIPT = `
+  const action = document.getElementById('action');
+  const search = document.getElementById('search');
+  function filter() {
+    const text = search.value.toLowerCase();
+    for (const row of document.querySelectorAll('tbody tr')) {
+      const shown = (!action.value || row.dataset.action === action.value) &&
+        row.textContent.toLowerCase().includes(text);
+      row.hidden = !shown;
+    }
+  }
+  action.addEventListener('change', filter);
+  search.addEventListener('input', filter);`;
+
+/**
+ * A self-contained HTML page: summary counts and a table of every row that
+ * can be filtered by action and searched
+ */
+export function formatHtmlReport(report: RunReport): string {
+  const { summary } = report;
+  const counts = (['total', 'created', 'updated', 'skipped', 'errors'] as const)
+    .map((key) => `<div><b>${summary[key]}</b>${key}</div>`)
+    .join('');
+
+  const rows = report.inputs.flatMap(({ input, results }) =>
+    results.map((result, i) => {
+      const cells = [
+        input,
+        rowLabel(result, i),
+        result.email,
+        result.action,
+        result.stage ?? '',
+        describe(result),
+        (result.warnings ?? []).join('; '),
+      ];
+      return (
+        `<tr class="${result.action}" data-action="${result.action}">` +
+        cells.map((cell) => `<td>${escapeMarkup(cell)}</td>`).join('') +
+        '</tr>'
+      );
+    })
+  );
+
+  const title = `Lead ingestion report${report.runId ? ` – run ${report.runId}` : ''}`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeMarkup(title)}</title>
+<style>${HTML_STYLE}
+</style>
+</head>
+<body>
+<h1>${escapeMarkup(title)}</h1>
+${report.dryRun ? '<p>Dry run: nothing was written.</p>\n' : ''}<div class="counts">${counts}</div>
+<label>Action <select id="action">
+  <option value="">all</option>
+  <option>created</option>
+  <option>updated</option>
+  <option>skipped</option>
+  <option>error</option>
+</select></label>
+<label>Search <input id="search" type="search"></label>
+<table>
+<thead><tr>${HTML_COLUMNS.map((column) => `<th>${column}</th>`).join('')}</tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+<script>${HTML_SCRIPT}
+</script>
+</body>
+</html>
+`;
+}
+
+const FORMATTERS: Record<ReportFormat, (report: RunReport) => string> = {
+  json: formatJsonReport,
+  csv: formatCsvReport,
+  junit: formatJUnitReport,
+  html: formatHtmlReport,
+};
+
+/**
+ * Writes the report in every requested format, creating missing directories
+ */
+export function writeReports(targets: ReportTarget[], report: RunReport): void {
+  for (const { format, path } of targets) {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, FORMATTERS[format](report));
+  }
+}
@@ -0,0 +1,233 @@
+import { readFileSync } from 'fs';
+import { Lead } from './validator';
+import { EMAIL_PATTERN, ValidationIssue } from './rules';
+
+export const FIELD_TYPES = [
+  'string',
+  'number',
+  'boolean',
+  'email',
+  'phone',
+  'date',
+  'list',
+] as const;
+
+export type FieldType = typeof FIELD_TYPES[number];
+
+export type FieldValue = string | number | boolean | string[];
+
+/** The four built-in string fields every lead has */
+export type CoreField = Exclude<keyof Lead, 'custom'>;
+
+export const CORE_FIELDS: CoreField[] = ['name', 'email', 'company', 'source'];
+
+/**
+ * A custom lead field beyond name/email/company/source
+ */
+export interface FieldDefinition {
+  name: string;
+  type: FieldType;
+  /** Header / key aliases, matched like the core column aliases */
+  aliases?: string[];
+  required?: boolean;
+}
+
+export interface LeadSchema {
+  fields: FieldDefinition[];
+}
+
+export const DEFAULT_SCHEMA: LeadSchema = {
+  fields: [
+    { name: 'phone', type: 'phone', aliases: ['Phone', 'Phone Number', 'Mobile', 'Telephone'] },
+    { name: 'jobTitle', type: 'string', aliases: ['Job Title', 'Title', 'Position'] },
+    { name: 'country', type: 'string', aliases: ['Country', 'Country Code'] },
+    { name: 'tags', type: 'list', aliases: ['Tags', 'Labels'] },
+  ],
+};
+
+const EMAIL_REGEX = new RegExp(EMAIL_PATTERN);
+const PHONE_REGEX = /^\+?[\d\s().-]{7,20}$/;
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+const LIST_SEPARATOR = /[;|,]/;
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+/**
+ * Converts a raw cell to the field's type. Values that cannot be converted
+ * are kept as strings so validation can report them.
+ */
+export function coerceFieldValue(definition: FieldDefinition, raw: string): FieldValue {
+  const value = raw.trim();
+
+  switch (definition.type) {
+    case 'number': {
+      const parsed = Number(value);
+      return value !== '' && Number.isFinite(parsed) ? parsed : value;
+    }
+    case 'boolean': {
+      const lower = value.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return true;
+      if (FALSE_VALUES.includes(lower)) return false;
+      return value;
+    }
+    case 'list':
+      return value
+        .split(LIST_SEPARATOR)
+        .map((item) => item.trim())
+        .filter((item) => item !== '');
+    default:
+      return value.replace(/\s+/g, ' ');
+  }
+}
+
+/**
+ * Checks a coerced value against its field type
+ */
+function checkFieldType(definition: FieldDefinition, value: FieldValue): boolean {
+  switch (definition.type) {
+    case 'number':
+      return typeof value === 'number';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'list':
+      return Array.isArray(value);
+    case 'email':
+      return typeof value === 'string' && EMAIL_REGEX.test(value);
+    case 'phone':
+      return typeof value === 'string' && PHONE_REGEX.test(value);
+    case 'date':
+      return typeof value === 'string' && ISO_DATE_REGEX.test(value);
+    default:
+      return typeof value === 'string';
+  }
+}
+
+const isBlank = (value: FieldValue | undefined): boolean =>
+  value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Validates the custom fields of a lead against the schema. Issues carry
+ * rule ids of the form "<field>.required" and "<field>.type".
+ */
+export function validateCustomFields(
+  lead: Lead,
+  schema: LeadSchema = DEFAULT_SCHEMA
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const issue = (field: string, rule: string, message: string): ValidationIssue => ({
+    ruleId: `${field}.${rule}`,
+    field,
+    severity: 'error',
+    message,
+  });
+
+  for (const definition of schema.fields) {
+    const value = lead.custom?.[definition.name];
+
+    if (isBlank(value)) {
+      if (definition.required) {
+        issues.push(issue(definition.name, 'required', `${definition.name} is required`));
+      }
+      continue;
+    }
+
+    if (!checkFieldType(definition, value as FieldValue)) {
+      issues.push(
+        issue(definition.name, 'type', `Invalid ${definition.name}: expected ${definition.type}`)
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Sets a custom field on a lead from a raw cell, skipping blanks
+ */
+export function assignCustomField(lead: Lead, definition: FieldDefinition, raw: string): void {
+  const value = coerceFieldValue(definition, raw);
+  if (isBlank(value)) return;
+  lead.custom = { ...lead.custom, [definition.name]: value };
+}
+
+/**
+ * Sets a core or custom field on a lead from a raw cell
+ */
+export function assignField(
+  lead: Lead,
+  field: string,
+  raw: string,
+  schema: LeadSchema = DEFAULT_SCHEMA
+): void {
+  if (CORE_FIELDS.includes(field as CoreField)) {
+    lead[field as CoreField] = raw.trim();
+    return;
+  }
+
+  const definition = schema.fields.find((f) => f.name === field);
+  if (definition) assignCustomField(lead, definition, raw);
+}
+
+/**
+ * Compares two field values; lists compare element-wise
+ */
+export const fieldValuesEqual = (
+  a: FieldValue | undefined,
+  b: FieldValue | undefined
+): boolean =>
+  Array.isArray(a) && Array.isArray(b)
+    ? a.length === b.length && a.every((item, i) => item === b[i])
+    : a === b;
+
+/**
+ * Loads a JSON schema file ({ "fields": [{ "name", "type", "aliases", "required" }] }).
+ * Definitions override the defaults by name; new ones are appended.
+ */
+export function loadSchema(filePath: string): LeadSchema {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException | null)?.code ?? '';
+    const message = error instanceof Error ? error.message : String(error);
+    const errorMessages: Record<string, string> = {
+      ENOENT: `Schema file not found: ${filePath}`,
+      EACCES: `Permission denied: ${filePath}`,
+    };
+    throw new Error(errorMessages[code] ?? `Invalid schema file ${filePath}: ${message}`);
+  }
+
+  const config = raw != null && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  if (!Array.isArray(config.fields)) {
+    throw new Error(`Invalid schema file ${filePath}: expected a "fields" array`);
+  }
+
+  const fields = [...DEFAULT_SCHEMA.fields];
+  for (const field of config.fields as FieldDefinition[]) {
+    if (typeof field?.name !== 'string' || field.name === '') {
+      throw new Error(`Invalid schema file ${filePath}: every field needs a name`);
+    }
+    if (CORE_FIELDS.includes(field.name as CoreField)) {
+      throw new Error(
+        `Invalid schema file ${filePath}: "${field.name}" is a core field; use a column mapping for its aliases`
+      );
+    }
+    if (!FIELD_TYPES.includes(field.type)) {
+      throw new Error(
+        `Invalid schema file ${filePath}: field "${field.name}" has unknown type "${field.type}"`
+      );
+    }
+
+    const definition: FieldDefinition = {
+      name: field.name,
+      type: field.type,
+      aliases: Array.isArray(field.aliases) ? field.aliases.map(String) : undefined,
+      required: field.required === true,
+    };
+    const existing = fields.findIndex((f) => f.name === field.name);
+    if (existing === -1) fields.push(definition);
+    else fields[existing] = definition;
+  }
+
+  return { fields };
+}
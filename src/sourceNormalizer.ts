@@ -0,0 +1,52 @@
+import { VALID_SOURCES } from './rules';
+
+/**
+ * Common spellings of the canonical sources. Keys are compared with
+ * sourceKey, so case, spaces and punctuation do not matter.
+ */
+export const DEFAULT_SOURCE_ALIASES: Record<string, string> = {
+  li: 'LinkedIn',
+  'linked in': 'LinkedIn',
+  web: 'Website',
+  site: 'Website',
+  'web site': 'Website',
+  'web form': 'Website',
+  tw: 'Twitter',
+  x: 'Twitter',
+  webcast: 'Webinar',
+  'online event': 'Webinar',
+  event: 'Conference',
+  'trade show': 'Conference',
+  referal: 'Referral',
+  'word of mouth': 'Referral',
+};
+
+/**
+ * Comparison key for sources: lowercase letters and digits only
+ */
+export const sourceKey = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Maps a raw source to its canonical allowed value: exact matches first,
+ * then case/spacing variants, then the alias table. Aliases pointing at a
+ * source that is not allowed are ignored. Returns undefined when nothing
+ * matches.
+ */
+export function canonicalizeSource(
+  value: string,
+  allowed: readonly string[] = VALID_SOURCES,
+  aliases: Record<string, string> = DEFAULT_SOURCE_ALIASES
+): string | undefined {
+  const trimmed = value.trim();
+  if (allowed.includes(trimmed)) return trimmed;
+
+  const key = sourceKey(trimmed);
+  if (key === '') return undefined;
+
+  const variant = allowed.find((source) => sourceKey(source) === key);
+  if (variant) return variant;
+
+  const aliasTarget = Object.entries(aliases).find(([alias]) => sourceKey(alias) === key)?.[1];
+  return aliasTarget && allowed.includes(aliasTarget) ? aliasTarget : undefined;
+}
@@ -0,0 +1,124 @@
+import { Lead } from './validator';
+import { ApiClient } from './apiClient';
+import { createLogger } from './logger';
+import { CORE_FIELDS, FieldValue, fieldValuesEqual } from './schema';
+import { FieldChange, toLeadUpdate } from './leadDiff';
+import { RunLogEntry } from './runLog';
+
+const logger = createLogger('undo');
+
+export type UndoAction = 'restored' | 'removed' | 'kept' | 'skipped' | 'error';
+
+export interface UndoResult {
+  email: string;
+  action: UndoAction;
+  details: string;
+  /** Fields put back, as changes from the run's value to the earlier one */
+  changes?: FieldChange[];
+}
+
+export interface UndoOptions {
+  /** Delete the leads the run created instead of only reporting them */
+  removeCreated?: boolean;
+  /** Where the run's leads are restored or deleted, e.g. a client from createApiClient */
+  client: Pick<ApiClient, 'lookupLead' | 'updateLead' | 'deleteLead'>;
+}
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+const fieldValue = (lead: Lead, field: string): FieldValue | undefined =>
+  (CORE_FIELDS as string[]).includes(field)
+    ? (lead as unknown as Record<string, FieldValue | undefined>)[field]
+    : lead.custom?.[field];
+
+/**
+ * Puts back the fields an update changed. A field is only restored while it
+ * still holds the value the run wrote, so later edits are never clobbered.
+ */
+async function restoreUpdate(
+  entry: Extract<RunLogEntry, { kind: 'updated' }>,
+  client: UndoOptions['client']
+): Promise<UndoResult> {
+  const current = await client.lookupLead(entry.email);
+  if (!current) {
+    return { email: entry.email, action: 'skipped', details: 'Lead no longer exists' };
+  }
+
+  const changes: FieldChange[] = [];
+  const notes: string[] = [];
+  for (const { field, after } of entry.changes) {
+    const now = fieldValue(current, field);
+    const before = fieldValue(entry.before, field);
+    if (!fieldValuesEqual(now, after)) {
+      notes.push(`${field} changed since the run`);
+    } else if (before === undefined) {
+      // The API cannot remove a field, only overwrite it
+      notes.push(`${field} had no earlier value`);
+    } else {
+      changes.push({ field, before: now, after: before });
+    }
+  }
+
+  if (changes.length === 0) {
+    return { email: entry.email, action: 'skipped', details: `Left as is: ${notes.join('; ')}` };
+  }
+
+  await client.updateLead(toLeadUpdate(entry.email, changes));
+  logger.info('Lead restored', { email: entry.email, fields: changes.map((c) => c.field) });
+  const restored = `Restored ${changes.map((c) => c.field).join(', ')}`;
+  return {
+    email: entry.email,
+    action: 'restored',
+    details: notes.length > 0 ? `${restored}; left as is: ${notes.join('; ')}` : restored,
+    changes,
+  };
+}
+
+async function undoCreate(
+  email: string,
+  client: UndoOptions['client'],
+  options: UndoOptions
+): Promise<UndoResult> {
+  if (!options.removeCreated) {
+    return { email, action: 'kept', details: 'Created by the run; not removed' };
+  }
+
+  if (!(await client.deleteLead(email))) {
+    return { email, action: 'skipped', details: 'Lead no longer exists' };
+  }
+  logger.info('Lead removed', { email });
+  return { email, action: 'removed', details: 'Lead deleted' };
+}
+
+/**
+ * Rolls back the writes of a run, newest first, so a lead written twice
+ * ends up as it was before the run. Updated leads get their earlier values
+ * back; created leads are reported, or deleted with `removeCreated`. A
+ * failure only affects its own entry.
+ */
+export async function undoRun(
+  entries: RunLogEntry[],
+  options: UndoOptions
+): Promise<UndoResult[]> {
+  const { client } = options;
+  const results: UndoResult[] = [];
+
+  for (const entry of [...entries].reverse()) {
+    // Failed leads, and their retries, wrote nothing
+    if (entry.kind === 'failed' || entry.kind === 'resolved') continue;
+    try {
+      results.push(
+        entry.kind === 'updated'
+          ? await restoreUpdate(entry, client)
+          : await undoCreate(entry.email, client, options)
+      );
+    } catch (error) {
+      const msg = getErrorMessage(error);
+      logger.error('Undo failed', { email: entry.email, kind: entry.kind, error: msg });
+      results.push({ email: entry.email, action: 'error', details: msg });
+    }
+  }
+
+  return results;
+}
@@ -1,62 +1,91 @@
+import { FieldValue, LeadSchema, validateCustomFields } from './schema';
+import {
+  DEFAULT_RULES,
+  VALID_SOURCES,
+  ValidationIssue,
+  ValidationRule,
+  evaluateRules,
+} from './rules';
+import { DEFAULT_SOURCE_ALIASES, canonicalizeSource } from './sourceNormalizer';
+import { DEFAULT_COMPANY_ALIASES, normalizeCompany } from './companyNormalizer';
+
 export interface Lead {
   name: string;
   email: string;
   company: string;
   source: string;
+  /** Schema-defined extra fields (phone, jobTitle, tags, ...) */
+  custom?: Record<string, FieldValue>;
 }
 
 export interface ValidationResult {
   isValid: boolean;
+  /** Messages of failed error-severity rules */
   errors: string[];
+  /** Messages of failed warning-severity rules; these never block ingestion */
+  warnings: string[];
+  /** Every failed rule, with its id */
+  issues: ValidationIssue[];
   normalizedLead?: Lead;
 }
 
-export const VALID_SOURCES = [
-  'LinkedIn',
-  'Webinar',
-  'Website',
-  'Conference',
-  'Referral',
-  'Twitter',
-] as const;
-
-export type ValidSource = typeof VALID_SOURCES[number];
-
-// Strong email regex - no spaces, requires @, proper format
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+export interface ValidateOptions {
+  /** Custom field definitions; defaults to DEFAULT_SCHEMA */
+  schema?: LeadSchema;
+  /** Declarative rules; defaults to DEFAULT_RULES */
+  rules?: ValidationRule[];
+  /** Extra source spellings, merged over DEFAULT_SOURCE_ALIASES */
+  sourceAliases?: Record<string, string>;
+  /** Extra company spellings, merged over DEFAULT_COMPANY_ALIASES */
+  companyAliases?: Record<string, string>;
+}
 
-export const normalizeCompany = (company: string): string =>
-  company.trim().replace(/\s+/g, ' ');
+export { VALID_SOURCES, normalizeCompany };
 
-const isEmpty = (value: string | undefined): boolean =>
-  !value || value.trim() === '';
+export type ValidSource = typeof VALID_SOURCES[number];
 
-export function validateLead(lead: Lead): ValidationResult {
-  const errors: string[] = [];
+/**
+ * Allowed sources come from the enabled enum rule on the source field
+ */
+const allowedSources = (rules: ValidationRule[]): readonly string[] =>
+  rules.find((r) => r.field === 'source' && r.type === 'enum' && r.enabled !== false)
+    ?.values ?? VALID_SOURCES;
 
-  // Validate required fields
-  if (isEmpty(lead.name)) errors.push('Name is required');
-  if (isEmpty(lead.company)) errors.push('Company is required');
-  
-  // Validate email format
-  if (!lead.email || !EMAIL_REGEX.test(lead.email)) {
-    errors.push('Invalid email format');
-  }
+/**
+ * Replaces case variants and aliases of a source with the canonical value;
+ * unknown sources are left for the rules to reject
+ */
+function withCanonicalSource(lead: Lead, options: ValidateOptions): Lead {
+  const rules = options.rules ?? DEFAULT_RULES;
+  const aliases = { ...DEFAULT_SOURCE_ALIASES, ...options.sourceAliases };
+  const source = canonicalizeSource(lead.source, allowedSources(rules), aliases);
+  return source === undefined ? lead : { ...lead, source };
+}
 
-  // Validate source
-  if (isEmpty(lead.source)) {
-    errors.push('Source is required');
-  } else if (!VALID_SOURCES.includes(lead.source as ValidSource)) {
-    errors.push(`Source must be one of: ${VALID_SOURCES.join(', ')}`);
-  }
+export function validateLead(lead: Lead, options: ValidateOptions = {}): ValidationResult {
+  const canonical = withCanonicalSource(lead, options);
+  const issues = [
+    ...evaluateRules(canonical, options.rules ?? DEFAULT_RULES),
+    ...validateCustomFields(canonical, options.schema),
+  ];
 
+  const errors = issues.filter((i) => i.severity === 'error').map((i) => i.message);
+  const warnings = issues.filter((i) => i.severity === 'warning').map((i) => i.message);
   const isValid = errors.length === 0;
 
   return {
     isValid,
     errors,
+    warnings,
+    issues,
     ...(isValid && {
-      normalizedLead: { ...lead, company: normalizeCompany(lead.company) },
+      normalizedLead: {
+        ...canonical,
+        company: normalizeCompany(canonical.company, {
+          ...DEFAULT_COMPANY_ALIASES,
+          ...options.companyAliases,
+        }),
+      },
     }),
   };
 }
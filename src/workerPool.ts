@@ -0,0 +1,123 @@
+/**
+ * Runs `worker` over a (possibly async) stream of items with at most
+ * `concurrency` calls in flight. Items are pulled lazily, so a large input
+ * is never read far ahead of the workers. Results keep input order. The
+ * first worker or iterator error stops further pulls and is rethrown.
+ */
+export async function mapConcurrent<T, R>(
+  items: Iterable<T> | AsyncIterable<T>,
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid concurrency ${concurrency}: expected a positive integer`);
+  }
+
+  const iterator: Iterator<T> | AsyncIterator<T> =
+    Symbol.asyncIterator in items
+      ? (items as AsyncIterable<T>)[Symbol.asyncIterator]()
+      : (items as Iterable<T>)[Symbol.iterator]();
+
+  // Pulls are chained so each item gets the index of its position
+  let pulling: Promise<unknown> = Promise.resolve();
+  let nextIndex = 0;
+  const pull = (): Promise<{ result: IteratorResult<T>; index: number }> => {
+    const index = nextIndex++;
+    const pulled = pulling.then(async () => ({ result: await iterator.next(), index }));
+    pulling = pulled.catch(() => undefined);
+    return pulled;
+  };
+
+  const results: R[] = [];
+  let stopped = false;
+  const run = async (): Promise<void> => {
+    try {
+      while (!stopped) {
+        const { result, index } = await pull();
+        if (result.done) break;
+        results[index] = await worker(result.value, index);
+      }
+    } finally {
+      stopped = true;
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: concurrency }, run));
+  } catch (error) {
+    // Let the source release its resources, as for-await would
+    await iterator.return?.();
+    throw error;
+  }
+  return results;
+}
+
+/**
+ * Serializes work per key: calls sharing a key run one after another in
+ * the order they were made, calls with different keys run freely
+ */
+export function createKeyedLock(): <R>(key: string, fn: () => Promise<R>) => Promise<R> {
+  const tails = new Map<string, Promise<void>>();
+
+  return async <R>(key: string, fn: () => Promise<R>): Promise<R> => {
+    const previous = tails.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>((resolve) => (release = resolve));
+    const tail = previous.then(() => current);
+    tails.set(key, tail);
+
+    try {
+      await previous;
+      return await fn();
+    } finally {
+      release();
+      if (tails.get(key) === tail) tails.delete(key);
+    }
+  };
+}
+
+/**
+ * A place in the line of an ordered keyed lock. Call `run` once, or `skip`
+ * if the work ends without a key; `skip` after `run` does nothing.
+ */
+export interface KeyedTurn {
+  /** Runs `fn` under `key` once every earlier turn has run or skipped */
+  run<R>(key: string, fn: () => Promise<R>): Promise<R>;
+  /** Gives the turn up, e.g. when the work ended before its key was known */
+  skip(): void;
+}
+
+/**
+ * A keyed lock whose order is fixed when turns are reserved, not when their
+ * keys become known. A turn whose key is still being worked out holds back
+ * every later turn from taking a key, so it cannot be overtaken by one that
+ * will turn out to share it; calls with different keys still overlap.
+ */
+export function createOrderedKeyedLock(): () => KeyedTurn {
+  const withLock = createKeyedLock();
+  let previousTaken: Promise<void> = Promise.resolve();
+
+  return () => {
+    const waitFor = previousTaken;
+    let taken!: () => void;
+    previousTaken = new Promise<void>((resolve) => (taken = resolve));
+    let used = false;
+
+    return {
+      async run<R>(key: string, fn: () => Promise<R>): Promise<R> {
+        if (used) throw new Error('Turn already used');
+        used = true;
+        await waitFor;
+        // withLock queues the call synchronously, so turns queue in order
+        const result = withLock(key, fn);
+        taken();
+        return result;
+      },
+      skip(): void {
+        if (used) return;
+        used = true;
+        void waitFor.then(taken);
+      },
+    };
+  };
+}
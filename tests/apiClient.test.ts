@@ -1,9 +1,6 @@
 import axios, { isAxiosError } from "axios";
-import {
-  lookupLead,
-  createLead,
-  updateLead,
-} from "../src/apiClient";
+import { DEFAULT_BASE_URL, createApiClient } from "../src/apiClient";
+import { RetriesExhaustedError } from "../src/errors";
 import { Lead } from "../src/validator";
 import { response } from "express";
 
@@ -11,6 +8,8 @@ jest.mock("axios");
 
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
+const client = createApiClient({ baseUrl: DEFAULT_BASE_URL });
+
 function mockLead(overrides: Partial<Lead> = {}): Lead {
   return {
     name: "Jane Doe",
@@ -31,7 +30,7 @@ describe("apiClient", () => {
       const lead = mockLead();
       mockedAxios.get.mockResolvedValueOnce({ data: lead, status: 200 });
 
-      const result = await lookupLead("jane@example.com");
+      const result = await client.lookupLead("jane@example.com");
 
       expect(mockedAxios.get).toHaveBeenCalledTimes(1);
       expect(mockedAxios.get).toHaveBeenCalledWith(
@@ -50,7 +49,7 @@ describe("apiClient", () => {
       };
       mockedAxios.get.mockRejectedValueOnce(error);
 
-      const result = await lookupLead("nobody@example.com");
+      const result = await client.lookupLead("nobody@example.com");
 
       expect(result).toBeNull();
     });
@@ -61,7 +60,7 @@ describe("apiClient", () => {
       const lead = mockLead();
       mockedAxios.post.mockResolvedValueOnce({ data: lead, status: 201 });
 
-      const result = await createLead(lead);
+      const result = await client.createLead(lead);
 
       expect(mockedAxios.post).toHaveBeenCalledTimes(1);
       expect(mockedAxios.post).toHaveBeenCalledWith(
@@ -77,7 +76,7 @@ describe("apiClient", () => {
       const lead = mockLead({ company: "New Corp" });
       mockedAxios.post.mockResolvedValueOnce({ data: lead, status: 200 });
 
-      const result = await updateLead(lead);
+      const result = await client.updateLead(lead);
 
       expect(mockedAxios.post).toHaveBeenCalledTimes(1);
       expect(mockedAxios.post).toHaveBeenCalledWith(
@@ -86,6 +85,74 @@ describe("apiClient", () => {
       );
       expect(result).toEqual(lead);
     });
+
+    it("sends only the fields of a partial update", async () => {
+      mockedAxios.post.mockResolvedValueOnce({ data: mockLead(), status: 200 });
+
+      await client.updateLead({
+        email: "jane@example.com",
+        company: "New Corp",
+        custom: { tags: ["vip"] },
+      });
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        expect.stringContaining("/api/leads/update"),
+        { email: "jane@example.com", company: "New Corp", tags: ["vip"] }
+      );
+    });
+  });
+
+  describe("deleteLead", () => {
+    it("calls POST /api/leads/delete with the email", async () => {
+      mockedAxios.post.mockResolvedValueOnce({ data: { success: true }, status: 200 });
+
+      expect(await client.deleteLead("jane@example.com")).toBe(true);
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        expect.stringContaining("/api/leads/delete"),
+        { email: "jane@example.com" }
+      );
+    });
+
+    it("returns false when the lead does not exist (404)", async () => {
+      mockedAxios.post.mockRejectedValueOnce({
+        isAxiosError: true,
+        response: { status: 404, data: {} },
+      });
+
+      expect(await client.deleteLead("nobody@example.com")).toBe(false);
+    });
+  });
+
+  describe("custom fields", () => {
+    it("sends custom fields flattened next to the core fields", async () => {
+      const lead = mockLead({ custom: { phone: "+1 555 0100", tags: ["vip"] } });
+      mockedAxios.post.mockResolvedValueOnce({
+        data: { success: true, lead: { ...mockLead(), phone: "+1 555 0100", tags: ["vip"] } },
+        status: 201,
+      });
+
+      const result = await client.createLead(lead);
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        expect.stringContaining("/api/leads/create"),
+        { ...mockLead(), phone: "+1 555 0100", tags: ["vip"] }
+      );
+      expect(result.custom).toEqual({ phone: "+1 555 0100", tags: ["vip"] });
+    });
+
+    it("reads extra response fields into custom but skips record metadata", async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        data: {
+          found: true,
+          lead: { ...mockLead(), id: "7", createdAt: "2024-01-01T00:00:00Z", jobTitle: "CTO" },
+        },
+        status: 200,
+      });
+
+      const result = await client.lookupLead("jane@example.com");
+
+      expect(result).toEqual({ ...mockLead(), custom: { jobTitle: "CTO" } });
+    });
   });
 
   describe("retry logic", () => {
@@ -100,12 +167,35 @@ describe("apiClient", () => {
         .mockRejectedValueOnce(error429)
         .mockResolvedValueOnce({ data: lead, status: 200 });
 
-      const result = await lookupLead("jane@example.com");
+      const result = await client.lookupLead("jane@example.com");
 
       expect(mockedAxios.get).toHaveBeenCalledTimes(2);
       expect(result).toEqual(lead);
     });
 
+    it("reports 429s and their retry hint to the client's rate limiter", async () => {
+      const limiter = {
+        acquire: jest.fn().mockResolvedValue(undefined),
+        onSuccess: jest.fn(),
+        onThrottled: jest.fn(),
+        rate: 10,
+      };
+      const limited = createApiClient({ baseUrl: DEFAULT_BASE_URL, rateLimiter: limiter });
+
+      mockedAxios.get
+        .mockRejectedValueOnce({
+          isAxiosError: true,
+          response: { status: 429, data: { retryAfter: 5 } },
+        })
+        .mockResolvedValueOnce({ data: mockLead(), status: 200 });
+
+      await limited.lookupLead("jane@example.com");
+
+      expect(limiter.acquire).toHaveBeenCalledTimes(2);
+      expect(limiter.onThrottled).toHaveBeenCalledWith(5000);
+      expect(limiter.onSuccess).toHaveBeenCalledTimes(1);
+    });
+
     it("retries on 500 (server error) and succeeds on second attempt", async () => {
       const error500 = {
         isAxiosError: true,
@@ -117,7 +207,7 @@ describe("apiClient", () => {
         .mockRejectedValueOnce(error500)
         .mockResolvedValueOnce({ data: lead, status: 201 });
 
-      const result = await createLead(lead);
+      const result = await client.createLead(lead);
 
       expect(mockedAxios.post).toHaveBeenCalledTimes(2);
       expect(result).toEqual(lead);
@@ -134,13 +224,50 @@ describe("apiClient", () => {
         .mockRejectedValueOnce(error500)
         .mockRejectedValueOnce(error500);
 
-      await expect(lookupLead("jane@example.com")).rejects.toThrow(
+      await expect(client.lookupLead("jane@example.com")).rejects.toThrow(
         /max retries|retry|exhausted/i
       );
 
       expect(mockedAxios.get).toHaveBeenCalledTimes(3);
     });
 
+    it("marks exhausted retries with RetriesExhaustedError", async () => {
+      const timeout = { isAxiosError: true, code: "ETIMEDOUT" };
+      mockedAxios.post
+        .mockRejectedValueOnce(timeout)
+        .mockRejectedValueOnce(timeout)
+        .mockRejectedValueOnce(timeout);
+
+      const error = await client.createLead(mockLead()).catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(RetriesExhaustedError);
+      expect(error).toMatchObject({ attempts: 3, lastError: timeout });
+    });
+
+    it("reports each retry and its wait to onRetry", async () => {
+      const listener = jest.fn();
+      const client = createApiClient({ baseUrl: "http://api.test", onRetry: listener });
+
+      mockedAxios.get
+        .mockRejectedValueOnce({ isAxiosError: true, response: { status: 503, data: {} } })
+        .mockRejectedValueOnce({ isAxiosError: true, code: "ETIMEDOUT" })
+        .mockResolvedValueOnce({ data: mockLead(), status: 200 });
+      await client.lookupLead("jane@example.com");
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenNthCalledWith(1, {
+        attempt: 1,
+        maxRetries: 3,
+        status: 503,
+        code: undefined,
+        delayMs: expect.any(Number),
+      });
+      expect(listener).toHaveBeenNthCalledWith(2, expect.objectContaining({
+        attempt: 2,
+        code: "ETIMEDOUT",
+      }));
+    });
+
     it("does NOT retry on 400 (bad request) and throws immediately", async () => {
       const error400 = {
         isAxiosError: true,
@@ -149,7 +276,7 @@ describe("apiClient", () => {
 
       mockedAxios.post.mockRejectedValueOnce(error400);
 
-      await expect(createLead(mockLead())).rejects.toMatchObject({
+      await expect(client.createLead(mockLead())).rejects.toMatchObject({
         isAxiosError: true,
         response: { status: 400 },
       });
@@ -169,7 +296,7 @@ describe("apiClient", () => {
         .mockRejectedValueOnce(timeoutError)
         .mockResolvedValueOnce({ data: lead, status: 200 });
 
-      const result = await lookupLead("jane@example.com");
+      const result = await client.lookupLead("jane@example.com");
 
       expect(mockedAxios.get).toHaveBeenCalledTimes(2);
       expect(result).toEqual(lead);
@@ -187,13 +314,57 @@ describe("apiClient", () => {
         .mockRejectedValueOnce(timeoutError)
         .mockResolvedValueOnce({ data: lead, status: 200 });
 
-      const result = await lookupLead("jane@example.com");
+      const result = await client.lookupLead("jane@example.com");
 
       expect(mockedAxios.get).toHaveBeenCalledTimes(2);
       expect(result).toEqual(lead);
     });
   });
 
+  describe("createApiClient", () => {
+    it("sends each client's requests to its own base URL", async () => {
+      const first = createApiClient({ baseUrl: "http://first.test/" });
+      const second = createApiClient({ baseUrl: "http://second.test" });
+      mockedAxios.get
+        .mockResolvedValueOnce({ data: { found: false }, status: 200 })
+        .mockResolvedValueOnce({ data: { found: false }, status: 200 });
+
+      await first.lookupLead("jane@example.com");
+      await second.lookupLead("jane@example.com");
+
+      expect(mockedAxios.get.mock.calls.map(([url]) => url)).toEqual([
+        "http://first.test/api/leads/lookup",
+        "http://second.test/api/leads/lookup",
+      ]);
+    });
+
+    it("paces requests with its own rate limiter", async () => {
+      const limiter = {
+        acquire: jest.fn().mockResolvedValue(undefined),
+        onSuccess: jest.fn(),
+        onThrottled: jest.fn(),
+        rate: 10,
+      };
+      const client = createApiClient({ baseUrl: "http://api.test", rateLimiter: limiter });
+      mockedAxios.post.mockResolvedValueOnce({ data: mockLead(), status: 201 });
+
+      await client.createLead(mockLead());
+
+      expect(limiter.acquire).toHaveBeenCalledTimes(1);
+      expect(limiter.onSuccess).toHaveBeenCalledTimes(1);
+    });
+
+    it("logs through the injected logger", async () => {
+      const logger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+      const client = createApiClient({ baseUrl: "http://api.test", logger });
+      mockedAxios.post.mockResolvedValueOnce({ data: {}, status: 200 });
+
+      await client.deleteLead("jane@example.com");
+
+      expect(logger.debug).toHaveBeenCalledWith("Lead deleted", { email: "jane@example.com" });
+    });
+  });
+
   describe("malformed API response", () => {
     it("throws a descriptive error when response is missing expected fields", async () => {
       mockedAxios.get.mockResolvedValueOnce({
@@ -201,7 +372,7 @@ describe("apiClient", () => {
         status: 200,
       });
 
-      await expect(lookupLead("jane@example.com")).rejects.toThrow(
+      await expect(client.lookupLead("jane@example.com")).rejects.toThrow(
         /malformed|invalid|missing.*field/i
       );
     });
@@ -212,7 +383,7 @@ describe("apiClient", () => {
         status: 201,
       });
 
-      await expect(createLead(mockLead())).rejects.toThrow(
+      await expect(client.createLead(mockLead())).rejects.toThrow(
         /malformed|invalid|missing/i
       );
     });
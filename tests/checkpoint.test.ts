@@ -0,0 +1,76 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { checkpointPath, fingerprintFile, openCheckpointJournal } from "../src/checkpoint";
+import { LeadResult } from "../src/leadProcessor";
+
+const result = (email: string): LeadResult => ({
+  email,
+  action: "created",
+  details: "Lead created successfully",
+  lead: { name: "Jane Doe", email, company: "Acme Corp", source: "LinkedIn" },
+});
+
+describe("checkpoint", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "checkpoint-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("fingerprintFile", () => {
+    it("changes when the content changes", async () => {
+      const filePath = path.join(tmpDir, "leads.csv");
+      fs.writeFileSync(filePath, "Name,Email\n");
+      const before = await fingerprintFile(filePath);
+      fs.writeFileSync(filePath, "Name,Email\nJane,jane@example.com\n");
+
+      expect(before).toMatch(/^[0-9a-f]{64}$/);
+      expect(await fingerprintFile(filePath)).not.toBe(before);
+    });
+  });
+
+  describe("openCheckpointJournal", () => {
+    const journalPath = () => checkpointPath("abc", path.join(tmpDir, "checkpoints"));
+
+    it("records entries that a resumed journal loads", () => {
+      const journal = openCheckpointJournal(journalPath());
+      journal.record({ position: 0, claimed: true, result: result("a@example.com") });
+      journal.record({ position: 2, claimed: false, result: result("b@example.com") });
+      journal.close();
+
+      const resumed = openCheckpointJournal(journalPath(), { resume: true });
+      expect([...resumed.completed.keys()]).toEqual([0, 2]);
+      expect(resumed.completed.get(0)?.result.email).toBe("a@example.com");
+      resumed.close();
+    });
+
+    it("ignores a torn last line", () => {
+      const journal = openCheckpointJournal(journalPath());
+      journal.record({ position: 0, claimed: true, result: result("a@example.com") });
+      journal.close();
+      fs.appendFileSync(journalPath(), '{"position":1,"claim');
+
+      const resumed = openCheckpointJournal(journalPath(), { resume: true });
+      expect(resumed.completed.size).toBe(1);
+      resumed.close();
+    });
+
+    it("starts empty without resume and deletes the file on discard", () => {
+      openCheckpointJournal(journalPath()).record({
+        position: 0,
+        claimed: true,
+        result: result("a@example.com"),
+      });
+
+      const fresh = openCheckpointJournal(journalPath());
+      expect(fresh.completed.size).toBe(0);
+      fresh.discard();
+      expect(fs.existsSync(journalPath())).toBe(false);
+    });
+  });
+});
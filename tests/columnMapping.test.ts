@@ -0,0 +1,98 @@
+import {
+  DEFAULT_COLUMN_MAPPING,
+  loadColumnMapping,
+  normalizeHeader,
+  resolveColumns,
+} from "../src/columnMapping";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+describe("normalizeHeader", () => {
+  it("ignores case, surrounding whitespace and separators", () => {
+    expect(normalizeHeader("  E-mail_Address ")).toBe("e mail address");
+    expect(normalizeHeader("\uFEFFName")).toBe("name");
+  });
+});
+
+describe("resolveColumns", () => {
+  it("maps vendor headers in any order and case onto lead fields", () => {
+    const result = resolveColumns([
+      "lead source",
+      "ORGANIZATION",
+      "Full Name",
+      "E-mail Address",
+    ]);
+
+    expect(result).toEqual({
+      "lead source": "source",
+      ORGANIZATION: "company",
+      "Full Name": "name",
+      "E-mail Address": "email",
+    });
+  });
+
+  it("ignores headers that do not map to any field", () => {
+    const result = resolveColumns(["Name", "Email", "Company", "Source", "Notes"]);
+
+    expect(result).not.toHaveProperty("Notes");
+  });
+
+  it("throws naming the first missing field", () => {
+    expect(() => resolveColumns(["Name", "Email", "Source"])).toThrow(
+      'Invalid CSV: missing required header "Company"'
+    );
+  });
+
+  it("throws when two headers map to the same field", () => {
+    expect(() =>
+      resolveColumns(["Name", "Full Name", "Email", "Company", "Source"])
+    ).toThrow(/both map to "Name"/);
+  });
+});
+
+describe("loadColumnMapping", () => {
+  let tmpDir: string;
+
+  function writeMapping(content: string): string {
+    const filePath = path.join(tmpDir, "mapping.json");
+    fs.writeFileSync(filePath, content, "utf-8");
+    return filePath;
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "column-mapping-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("merges custom aliases over the defaults", () => {
+    const mapping = loadColumnMapping(
+      writeMapping(JSON.stringify({ company: ["Employer"], source: "Origin" }))
+    );
+
+    expect(mapping.company).toEqual(["Employer", ...DEFAULT_COLUMN_MAPPING.company]);
+    expect(mapping.source).toEqual(["Origin", ...DEFAULT_COLUMN_MAPPING.source]);
+    expect(mapping.name).toEqual(DEFAULT_COLUMN_MAPPING.name);
+  });
+
+  it("rejects unknown fields", () => {
+    expect(() => loadColumnMapping(writeMapping('{"phone": ["Tel"]}'))).toThrow(
+      /unknown field "phone"/
+    );
+  });
+
+  it("reports invalid JSON", () => {
+    expect(() => loadColumnMapping(writeMapping("{not json"))).toThrow(
+      /Invalid mapping file/
+    );
+  });
+
+  it("reports a missing file", () => {
+    expect(() => loadColumnMapping(path.join(tmpDir, "nope.json"))).toThrow(
+      /Mapping file not found/
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import { companiesMatch, companyKey, normalizeCompany } from "../src/companyNormalizer";
+
+describe("companyKey", () => {
+  it.each([
+    ["Acme Inc", "acme"],
+    ["Acme, Inc.", "acme"],
+    ["ACME INC", "acme"],
+    ["The Acme Co., Ltd.", "acme"],
+    ["Acme & Co", "acme"],
+    ["Müller GmbH", "müller"],
+    ["  Johnson   &  Johnson ", "johnson and johnson"],
+    ["O'Reilly Media", "oreilly media"],
+  ])("maps %j to %j", (name, expected) => {
+    expect(companyKey(name)).toBe(expected);
+  });
+
+  it("keeps a name that is only a legal suffix", () => {
+    expect(companyKey("Limited")).toBe("limited");
+  });
+
+  it("resolves aliases to their target's key", () => {
+    expect(companyKey("International Business Machines Corp.")).toBe("ibm");
+    expect(companyKey("Globex Intl", { "globex intl": "Globex International" })).toBe(
+      "globex international"
+    );
+  });
+});
+
+describe("normalizeCompany", () => {
+  it("collapses whitespace but keeps the written form", () => {
+    expect(normalizeCompany("  Acme,   Inc. ")).toBe("Acme, Inc.");
+  });
+
+  it("writes the alias target", () => {
+    expect(normalizeCompany("Hewlett-Packard Company")).toBe("HP");
+  });
+});
+
+describe("companiesMatch", () => {
+  it("compares canonical keys", () => {
+    expect(companiesMatch("Acme Inc", "ACME, INC.")).toBe(true);
+    expect(companiesMatch("Acme Inc", "Acme Labs")).toBe(false);
+  });
+});
@@ -1,40 +1,50 @@
-import { parseCSVFile } from "../src/csvParser";
+import { parseCSVFile, streamCSVRows, ParsedRow } from "../src/csvParser";
 import { Lead } from "../src/validator";
+import { DEFAULT_COLUMN_MAPPING } from "../src/columnMapping";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 
-describe("parseCSVFile", () => {
-  let tmpDir: string;
-  const tempFiles: string[] = [];
-
-  function createTempCSV(content: string): string {
-    const filePath = path.join(tmpDir, `test-${Date.now()}-${Math.random().toString(36).slice(2)}.csv`);
-    fs.writeFileSync(filePath, content, "utf-8");
-    tempFiles.push(filePath);
-    return filePath;
-  }
+let tmpDir: string;
+const tempFiles: string[] = [];
 
-  beforeEach(() => {
-    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "csv-parser-test-"));
-  });
+function createTempCSV(content: string): string {
+  const filePath = path.join(tmpDir, `test-${Date.now()}-${Math.random().toString(36).slice(2)}.csv`);
+  fs.writeFileSync(filePath, content, "utf-8");
+  tempFiles.push(filePath);
+  return filePath;
+}
 
-  afterEach(() => {
-    for (const file of tempFiles) {
-      try {
-        fs.unlinkSync(file);
-      } catch {
-        // already cleaned up
-      }
-    }
-    tempFiles.length = 0;
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "csv-parser-test-"));
+});
 
+afterEach(() => {
+  for (const file of tempFiles) {
     try {
-      fs.rmdirSync(tmpDir);
+      fs.unlinkSync(file);
     } catch {
       // already cleaned up
     }
-  });
+  }
+  tempFiles.length = 0;
+
+  try {
+    fs.rmdirSync(tmpDir);
+  } catch {
+    // already cleaned up
+  }
+});
+
+describe("parseCSVFile", () => {
 
   it("parses a valid CSV with headers and returns Lead[]", async () => {
     const csv = [
@@ -143,4 +153,206 @@ describe("parseCSVFile", () => {
 
     await expect(parseCSVFile(filePath)).rejects.toThrow(/column|field|malformed|mismatch/i);
   });
-});
\ No newline at end of file
+
+  it("maps aliased headers regardless of case and order", async () => {
+    const csv = [
+      "lead source,E-mail Address,ORGANIZATION,Full Name",
+      "LinkedIn,alice@example.com,Acme Inc,Alice Johnson",
+    ].join("\n");
+
+    const filePath = createTempCSV(csv);
+    const result = await parseCSVFile(filePath);
+
+    expect(result).toEqual<Lead[]>([
+      {
+        name: "Alice Johnson",
+        email: "alice@example.com",
+        company: "Acme Inc",
+        source: "LinkedIn",
+      },
+    ]);
+  });
+
+  it("picks up custom field columns defined in the schema", async () => {
+    const csv = [
+      "Name,Email,Company,Source,Phone Number,Job Title,Tags,Notes",
+      "Alice Johnson,alice@example.com,Acme Inc,LinkedIn,+1 555 0100,CTO,vip;partner,ignored",
+    ].join("\n");
+
+    const result = await parseCSVFile(createTempCSV(csv));
+
+    expect(result[0].custom).toEqual({
+      phone: "+1 555 0100",
+      jobTitle: "CTO",
+      tags: ["vip", "partner"],
+    });
+  });
+
+  it("uses a custom column mapping when provided", async () => {
+    const csv = [
+      "Contact,Email,Employer,Source",
+      "Alice Johnson,alice@example.com,Acme Inc,LinkedIn",
+    ].join("\n");
+
+    const filePath = createTempCSV(csv);
+    const mapping = {
+      ...DEFAULT_COLUMN_MAPPING,
+      name: ["Contact"],
+      company: ["Employer"],
+    };
+    const result = await parseCSVFile(filePath, { mapping });
+
+    expect(result[0]).toHaveProperty("name", "Alice Johnson");
+    expect(result[0]).toHaveProperty("company", "Acme Inc");
+  });
+});
+
+describe("streamCSVRows", () => {
+  it("yields rows with their source line and aliased headers", async () => {
+    const csv = [
+      "\uFEFFFull Name,Email,Organization,Lead Source",
+      "Alice Johnson,alice@example.com,Acme Inc,LinkedIn",
+      "",
+      "Bob Smith,bob@startup.com,Startup Co,Webinar",
+    ].join("\n");
+
+    const result = await collect(streamCSVRows(createTempCSV(csv)));
+
+    expect(result).toEqual<ParsedRow[]>([
+      {
+        line: 2,
+        lead: { name: "Alice Johnson", email: "alice@example.com", company: "Acme Inc", source: "LinkedIn" },
+        raw: {
+          "Full Name": "Alice Johnson",
+          Email: "alice@example.com",
+          Organization: "Acme Inc",
+          "Lead Source": "LinkedIn",
+        },
+      },
+      {
+        line: 4,
+        lead: { name: "Bob Smith", email: "bob@startup.com", company: "Startup Co", source: "Webinar" },
+        raw: {
+          "Full Name": "Bob Smith",
+          Email: "bob@startup.com",
+          Organization: "Startup Co",
+          "Lead Source": "Webinar",
+        },
+      },
+    ]);
+  });
+
+  it("accepts quoted delimiters and multi-line fields", async () => {
+    const csv = [
+      "Name,Email,Company,Source",
+      '"Johnson, Alice",alice@example.com,"Acme, Inc.",LinkedIn',
+      'Bob Smith,bob@startup.com,"Startup',
+      'Co",Webinar',
+      "Carol White,carol@example.com,Globex,Referral",
+    ].join("\n");
+
+    const result = await collect(streamCSVRows(createTempCSV(csv)));
+
+    expect(result.map((r) => r.line)).toEqual([2, 3, 5]);
+    expect(result[0].lead.company).toBe("Acme, Inc.");
+    expect(result[1].lead.company).toBe("Startup\nCo");
+    expect(result.every((r) => r.errors === undefined)).toBe(true);
+  });
+
+  it("reports header errors before yielding any row", async () => {
+    const csv = ["Name,Email,Source", "Alice,alice@example.com,LinkedIn"].join("\n");
+
+    const iterator = streamCSVRows(createTempCSV(csv));
+
+    await expect(iterator.next()).rejects.toThrow('missing required header "Company"');
+  });
+
+  it("throws a descriptive error when file is not found", async () => {
+    const iterator = streamCSVRows(path.join(tmpDir, "missing.csv"));
+
+    await expect(iterator.next()).rejects.toThrow(/File not found/);
+  });
+
+  it("fails the file on a row with the wrong column count", async () => {
+    const csv = [
+      "Name,Email,Company,Source",
+      "Alice Johnson,alice@example.com,Acme Inc,LinkedIn",
+      "Bob Smith,bob@startup.com",
+    ].join("\n");
+
+    await expect(collect(streamCSVRows(createTempCSV(csv)))).rejects.toThrow(
+      "Malformed row 3: expected 4 columns, got 2"
+    );
+  });
+
+  describe("lenient mode", () => {
+    it("turns rows with the wrong column count into row errors", async () => {
+      const csv = [
+        "Name,Email,Company,Source",
+        "Bob Smith,bob@startup.com",
+        "Alice Johnson,alice@example.com,Acme Inc,LinkedIn",
+      ].join("\n");
+
+      const result = await collect(streamCSVRows(createTempCSV(csv), { lenient: true }));
+
+      expect(result).toHaveLength(2);
+      expect(result[0]).toMatchObject({
+        line: 2,
+        lead: { name: "Bob Smith", email: "bob@startup.com" },
+        errors: ["Malformed row 2: expected 4 columns, got 2"],
+      });
+      expect(result[1].errors).toBeUndefined();
+    });
+
+    it("keeps the fields of a malformed row, extra ones by column number", async () => {
+      const csv = [
+        "Name,Email,Company,Source",
+        "Bob Smith,bob@startup.com,Startup Co,Webinar,VIP",
+      ].join("\n");
+
+      const [row] = await collect(streamCSVRows(createTempCSV(csv), { lenient: true }));
+
+      expect(row.raw).toEqual({
+        Name: "Bob Smith",
+        Email: "bob@startup.com",
+        Company: "Startup Co",
+        Source: "Webinar",
+        "column 5": "VIP",
+      });
+    });
+
+    it("turns a row with an unclosed quote into a row error", async () => {
+      const csv = [
+        "Name,Email,Company,Source",
+        "Alice Johnson,alice@example.com,Acme Inc,LinkedIn",
+        'Bob Smith,bob@startup.com,"Startup Co,Webinar',
+      ].join("\n");
+
+      const result = await collect(streamCSVRows(createTempCSV(csv), { lenient: true }));
+
+      expect(result).toHaveLength(2);
+      expect(result[0].lead.email).toBe("alice@example.com");
+      expect(result[1].line).toBe(3);
+      expect(result[1].errors?.[0]).toMatch(/Quote Not Closed/);
+    });
+
+    it("reports an unclosed quote where its record starts and the rows it took", async () => {
+      const csv = [
+        "Name,Email,Company,Source",
+        "Alice Johnson,alice@example.com,Acme Inc,LinkedIn",
+        "",
+        'Bob Smith,bob@startup.com,"Startup Co,Webinar',
+        "Carol White,carol@example.com,Initech,Referral",
+        "Dan Brown,dan@example.com,Umbrella,Webinar",
+      ].join("\n");
+
+      const result = await collect(streamCSVRows(createTempCSV(csv), { lenient: true }));
+
+      expect(result).toHaveLength(2);
+      expect(result[1].line).toBe(4);
+      expect(result[1].errors?.[0]).toMatch(
+        /Quote Not Closed.*; lines 5-6 were read into this record and skipped$/
+      );
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  DuplicateCandidate,
+  findDuplicateClusters,
+  heldIndices,
+  writeDuplicateReport,
+} from "../src/duplicateAnalyzer";
+import * as similarity from "../src/similarity";
+import { Lead } from "../src/validator";
+
+function mockLead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    name: "Jane Doe",
+    email: "jane.doe@acme.com",
+    company: "Acme Corp",
+    source: "LinkedIn",
+    ...overrides,
+  };
+}
+
+const candidates = (leads: Lead[]): DuplicateCandidate[] =>
+  leads.map((lead, index) => ({ index, line: index + 2, lead }));
+
+describe("findDuplicateClusters", () => {
+  it("matches email local parts derived from the same name", () => {
+    const clusters = findDuplicateClusters(
+      candidates([mockLead(), mockLead({ email: "jdoe@acme.com", company: "ACME Inc." })])
+    );
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].members.map((m) => m.line)).toEqual([2, 3]);
+    expect(clusters[0].reasons).toEqual(["similar name", "same company", "similar email"]);
+    expect(clusters[0].score).toBe(1);
+  });
+
+  it("matches a typo in the name at the same company", () => {
+    const clusters = findDuplicateClusters(
+      candidates([
+        mockLead({ email: "jane@gmail.com" }),
+        mockLead({ name: "Jane Deo", email: "jane.deo@acme.com" }),
+      ])
+    );
+
+    expect(clusters).toHaveLength(1);
+  });
+
+  it("does not match different people at the same company", () => {
+    const clusters = findDuplicateClusters(
+      candidates([mockLead(), mockLead({ name: "John Smith", email: "john.smith@acme.com" })])
+    );
+
+    expect(clusters).toEqual([]);
+  });
+
+  it("does not compare every lead on a free-mail domain with every other", () => {
+    const compare = jest.spyOn(similarity, "jaroWinkler");
+
+    const clusters = findDuplicateClusters(
+      candidates([
+        mockLead({ name: "Alice Walker", email: "alice.w@gmail.com", company: "Globex" }),
+        mockLead({ name: "Bob King", email: "bob.k@gmail.com", company: "Initech" }),
+        mockLead({ name: "Carol Young", email: "carol@gmail.com", company: "Umbrella" }),
+      ])
+    );
+
+    expect(clusters).toEqual([]);
+    expect(compare).not.toHaveBeenCalled();
+    compare.mockRestore();
+  });
+
+  it("clusters exact email repeats after normalization", () => {
+    const clusters = findDuplicateClusters(
+      candidates([mockLead(), mockLead({ name: "J. Doe", email: "Jane.Doe@ACME.com." })])
+    );
+
+    expect(clusters[0].reasons).toContain("same email");
+  });
+
+  it("joins matches transitively and keeps input order", () => {
+    const clusters = findDuplicateClusters(
+      candidates([
+        mockLead({ name: "Bob Stone", email: "bob@other.com", company: "Other" }),
+        mockLead(),
+        mockLead({ email: "jdoe@acme.com" }),
+        mockLead({ email: "jane.doe@acme.com" }),
+      ])
+    );
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].members.map((m) => m.index)).toEqual([1, 2, 3]);
+    expect(heldIndices(clusters)).toEqual(new Set([2, 3]));
+  });
+
+  it("honours the threshold", () => {
+    const leads = candidates([
+      mockLead({ email: "jane@gmail.com" }),
+      mockLead({ name: "Jane Deo", email: "jane.deo@acme.com" }),
+    ]);
+
+    expect(findDuplicateClusters(leads, { threshold: 0.99 })).toEqual([]);
+  });
+});
+
+describe("writeDuplicateReport", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "duplicate-report-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("writes every cluster with its input", () => {
+    const filePath = path.join(tmpDir, "duplicates.json");
+    const clusters = findDuplicateClusters(
+      candidates([mockLead(), mockLead({ email: "jdoe@acme.com" })])
+    );
+
+    writeDuplicateReport(filePath, { "leads.csv": clusters, "more.csv": [] });
+
+    const report = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    expect(report.clusters).toHaveLength(1);
+    expect(report.clusters[0].input).toBe("leads.csv");
+    expect(report.clusters[0].members[1].email).toBe("jdoe@acme.com");
+  });
+});
@@ -0,0 +1,88 @@
+import { BatchRow, mergeLeads, resolveDuplicates } from "../src/duplicateResolver";
+import { Lead } from "../src/validator";
+
+function mockLead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    name: "Jane Doe",
+    email: "jane@example.com",
+    company: "Acme Corp",
+    source: "LinkedIn",
+    ...overrides,
+  };
+}
+
+const rows = (leads: Lead[]): BatchRow[] =>
+  leads.map((lead, position) => ({ position, row: position + 2, lead }));
+
+describe("mergeLeads", () => {
+  it("lets later non-empty values win and never clears values", () => {
+    const merged = mergeLeads([
+      mockLead({ source: "", custom: { phone: "+1 555 0100", tags: ["vip"] } }),
+      mockLead({ company: "", source: "Website", custom: { phone: "", jobTitle: "CTO" } }),
+      mockLead({ name: "Jane D. Doe", source: "", custom: { tags: [] } }),
+    ]);
+
+    expect(merged).toEqual(
+      mockLead({
+        name: "Jane D. Doe",
+        source: "Website",
+        custom: { phone: "+1 555 0100", tags: ["vip"], jobTitle: "CTO" },
+      })
+    );
+  });
+
+  it("does not modify its inputs", () => {
+    const first = mockLead({ custom: { jobTitle: "CEO" } });
+    mergeLeads([first, mockLead({ custom: { jobTitle: "CTO" } })]);
+    expect(first.custom).toEqual({ jobTitle: "CEO" });
+  });
+});
+
+describe("resolveDuplicates", () => {
+  const batch = rows([
+    mockLead({ company: "Old Corp" }),
+    mockLead({ email: "other@example.com" }),
+    mockLead({ email: " JANE@example.com ", company: "", source: "Website" }),
+  ]);
+
+  it("keeps the last row", () => {
+    const plan = resolveDuplicates(batch, "last");
+
+    expect(plan.get(0)).toEqual({ kind: "fold", into: 4, details: "Superseded by row 4" });
+    expect(plan.get(1)).toBeUndefined();
+    expect(plan.get(2)).toEqual({ kind: "keep", lead: batch[2].lead, foldedFrom: [2] });
+  });
+
+  it("merges into the first row", () => {
+    const plan = resolveDuplicates(batch, "merge");
+
+    expect(plan.get(0)).toEqual({
+      kind: "keep",
+      lead: mockLead({ email: " JANE@example.com ", company: "Old Corp", source: "Website" }),
+      foldedFrom: [4],
+    });
+    expect(plan.get(2)).toEqual({ kind: "fold", into: 2, details: "Merged into row 2" });
+  });
+
+  it("flags every occurrence as a conflict", () => {
+    const plan = resolveDuplicates(batch, "error");
+
+    expect(plan.get(0)).toEqual({ kind: "conflict", others: [4] });
+    expect(plan.get(2)).toEqual({ kind: "conflict", others: [2] });
+  });
+
+  it("groups by the folded email", () => {
+    const plan = resolveDuplicates(
+      rows([mockLead({ email: "jane+a@example.com" }), mockLead({ email: "jane@example.com" })]),
+      "last",
+      { foldPlusTags: true }
+    );
+
+    expect(plan.size).toBe(2);
+  });
+
+  it("ignores rows without an email", () => {
+    const plan = resolveDuplicates(rows([mockLead({ email: "" }), mockLead({ email: "" })]), "error");
+    expect(plan.size).toBe(0);
+  });
+});
@@ -0,0 +1,125 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  applyEmailScreening,
+  createScreeningLists,
+  loadScreeningList,
+  normalizeEmail,
+  screenEmail,
+} from "../src/emailNormalizer";
+import { Lead } from "../src/validator";
+
+function mockLead(email: string): Lead {
+  return { name: "Jane Doe", email, company: "Acme Corp", source: "LinkedIn" };
+}
+
+describe("normalizeEmail", () => {
+  it("trims, lowercases and drops trailing domain dots", () => {
+    expect(normalizeEmail("  Jane.Doe@Example.COM. ")).toBe("jane.doe@example.com");
+  });
+
+  it("converts internationalized domains to punycode", () => {
+    expect(normalizeEmail("jane@Bücher.de")).toBe("jane@xn--bcher-kva.de");
+  });
+
+  it("keeps plus-tags and dots unless folding is enabled", () => {
+    expect(normalizeEmail("j.ane+news@gmail.com")).toBe("j.ane+news@gmail.com");
+    expect(normalizeEmail("jane+news@example.com", { foldPlusTags: true })).toBe(
+      "jane@example.com"
+    );
+  });
+
+  it("folds Gmail dots and googlemail.com", () => {
+    expect(normalizeEmail("J.Ane@googlemail.com", { foldGmailDots: true })).toBe("jane@gmail.com");
+    expect(normalizeEmail("j.ane@example.com", { foldGmailDots: true })).toBe("j.ane@example.com");
+  });
+
+  it("leaves values without a single @ for validation to reject", () => {
+    expect(normalizeEmail(" BadEmail ")).toBe("bademail");
+    expect(normalizeEmail("a@b@c.com")).toBe("a@b@c.com");
+  });
+});
+
+describe("screenEmail", () => {
+  const lists = createScreeningLists();
+
+  it("flags disposable domains and their subdomains", () => {
+    expect(screenEmail("jane@mailinator.com", lists).disposable).toBe(true);
+    expect(screenEmail("jane@eu.mailinator.com", lists).disposable).toBe(true);
+    expect(screenEmail("jane@notmailinator.com", lists).disposable).toBe(false);
+  });
+
+  it("flags role accounts, ignoring plus-tags", () => {
+    expect(screenEmail("info@acme.com", lists).role).toBe(true);
+    expect(screenEmail("noreply+x@acme.com", lists).role).toBe(true);
+    expect(screenEmail("jane@acme.com", lists).role).toBe(false);
+  });
+
+  it("accepts extra list entries", () => {
+    const extended = createScreeningLists({
+      disposableDomains: ["Burner.Example"],
+      roleAccounts: ["press"],
+    });
+    expect(screenEmail("jane@burner.example", extended)).toEqual({ disposable: true, role: false });
+    expect(screenEmail("press@acme.com", extended)).toEqual({ disposable: false, role: true });
+  });
+});
+
+describe("applyEmailScreening", () => {
+  it("warns by default", () => {
+    const result = applyEmailScreening(mockLead("info@mailinator.com"));
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual(["Disposable email domain", "Role account email address"]);
+  });
+
+  it("rejects when configured", () => {
+    const result = applyEmailScreening(mockLead("jane@yopmail.com"), {
+      disposableAction: "reject",
+    });
+
+    expect(result.errors).toEqual(["Disposable email domain"]);
+  });
+
+  it("tags without duplicating existing tags", () => {
+    const lead = { ...mockLead("sales@acme.com"), custom: { tags: ["vip", "role-account"] } };
+    const result = applyEmailScreening(lead, { roleAction: "tag" });
+
+    expect(result.warnings).toEqual([]);
+    expect(result.lead.custom?.tags).toEqual(["vip", "role-account"]);
+
+    const untagged = applyEmailScreening(mockLead("sales@acme.com"), { roleAction: "tag" });
+    expect(untagged.lead.custom?.tags).toEqual(["role-account"]);
+  });
+
+  it("passes ordinary addresses through untouched", () => {
+    const lead = mockLead("jane@acme.com");
+    expect(applyEmailScreening(lead)).toEqual({ lead, errors: [], warnings: [] });
+  });
+});
+
+describe("loadScreeningList", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "email-list-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("reads one entry per line, skipping blanks and comments", () => {
+    const filePath = path.join(tmpDir, "domains.txt");
+    fs.writeFileSync(filePath, "# extra domains\nburner.example\r\n\n spam.test # old\n");
+
+    expect(loadScreeningList(filePath)).toEqual(["burner.example", "spam.test"]);
+  });
+
+  it("reports missing files", () => {
+    expect(() => loadScreeningList(path.join(tmpDir, "nope.txt"))).toThrow(
+      /List file not found/
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { globToRegExp, resolveInputPaths } from "../src/inputFiles";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+describe("globToRegExp", () => {
+  it.each([
+    ["*.csv", "leads.csv", true],
+    ["*.csv", "drops/leads.csv", false],
+    ["**/*.csv", "drops/2024/leads.csv", true],
+    ["**/*.csv", "leads.csv", true],
+    ["leads-?.csv", "leads-1.csv", true],
+    ["leads-[ab].csv", "leads-c.csv", false],
+    ["leads.csv", "leadsXcsv", false],
+  ])("%s matches %s: %s", (pattern, file, expected) => {
+    expect(globToRegExp(pattern).test(file)).toBe(expected);
+  });
+});
+
+describe("resolveInputPaths", () => {
+  let tmpDir: string;
+
+  function touch(...segments: string[]): string {
+    const filePath = path.join(tmpDir, ...segments);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, "Name,Email,Company,Source\n");
+    return filePath;
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "input-files-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("keeps stdin and plain paths as given", async () => {
+    const file = path.join(tmpDir, "missing.csv");
+
+    expect(await resolveInputPaths(["-", file])).toEqual(["-", file]);
+  });
+
+  it("expands a directory to its supported lead files, sorted", async () => {
+    const b = touch("b.csv");
+    const a = touch("a.ndjson");
+    touch("notes.md");
+    touch("nested", "c.csv");
+
+    expect(await resolveInputPaths([tmpDir])).toEqual([a, b]);
+  });
+
+  it("expands globs, including recursive ones", async () => {
+    const jan = touch("drops", "2024-01.csv");
+    const feb = touch("drops", "nested", "2024-02.csv");
+    touch("drops", "2024-01.json");
+
+    expect(await resolveInputPaths([path.join(tmpDir, "drops", "*.csv")])).toEqual([jan]);
+    expect(await resolveInputPaths([path.join(tmpDir, "drops", "**", "*.csv")])).toEqual([
+      jan,
+      feb,
+    ]);
+  });
+
+  it("drops repeated inputs", async () => {
+    const file = touch("a.csv");
+
+    expect(await resolveInputPaths([file, path.join(tmpDir, "*.csv")])).toEqual([file]);
+  });
+
+  it("throws when a glob matches nothing", async () => {
+    await expect(resolveInputPaths([path.join(tmpDir, "*.tsv")])).rejects.toThrow(
+      /No files match/
+    );
+  });
+});
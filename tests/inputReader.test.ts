@@ -0,0 +1,254 @@
+import {
+  countLeadRows,
+  detectEncoding,
+  detectFormat,
+  readLeadRows,
+  readLeadStream,
+  sniffDelimiter,
+} from "../src/inputReader";
+import { Readable } from "stream";
+import { ParsedRow } from "../src/csvParser";
+import { Lead } from "../src/validator";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+const alice: Lead = {
+  name: "Alice Johnson",
+  email: "alice@example.com",
+  company: "Acme Inc",
+  source: "LinkedIn",
+};
+
+// The record as read from a CSV with the default headers
+const aliceRaw = {
+  Name: "Alice Johnson",
+  Email: "alice@example.com",
+  Company: "Acme Inc",
+  Source: "LinkedIn",
+};
+
+async function collect(iterable: AsyncIterable<ParsedRow>): Promise<ParsedRow[]> {
+  const rows: ParsedRow[] = [];
+  for await (const row of iterable) {
+    rows.push(row);
+  }
+  return rows;
+}
+
+describe("detectFormat", () => {
+  it.each([
+    ["leads.csv", "csv"],
+    ["leads.TSV", "tsv"],
+    ["leads.json", "json"],
+    ["leads.jsonl", "ndjson"],
+    ["leads.ndjson", "ndjson"],
+    ["leads.export", "csv"],
+  ])("detects %s as %s", (file, format) => {
+    expect(detectFormat(file)).toBe(format);
+  });
+
+  it("prefers an explicit format", () => {
+    expect(detectFormat("leads.txt", "ndjson")).toBe("ndjson");
+  });
+
+  it("falls back to the content when the extension is unknown", () => {
+    expect(detectFormat("-", undefined, '  [{"email": "a@b.com"}]')).toBe("json");
+    expect(detectFormat("-", undefined, '{"email": "a@b.com"}')).toBe("ndjson");
+    expect(detectFormat("-", undefined, "Name,Email")).toBe("csv");
+  });
+
+  it("rejects an unsupported format", () => {
+    expect(() => detectFormat("leads.csv", "xml")).toThrow(/Unsupported format "xml"/);
+  });
+});
+
+describe("detectEncoding", () => {
+  it("recognizes byte order marks", () => {
+    expect(detectEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x41]))).toBe("utf-8");
+    expect(detectEncoding(Buffer.from([0xff, 0xfe, 0x41, 0x00]))).toBe("utf-16le");
+    expect(detectEncoding(Buffer.from([0xfe, 0xff, 0x00, 0x41]))).toBe("utf-16be");
+  });
+
+  it("recognizes UTF-16 without a BOM", () => {
+    expect(detectEncoding(Buffer.from("Name,Email\n", "utf16le"))).toBe("utf-16le");
+  });
+
+  it("falls back to latin1 when the bytes are not valid UTF-8", () => {
+    expect(detectEncoding(Buffer.from("Café,Zoë\n", "latin1"))).toBe("latin1");
+    expect(detectEncoding(Buffer.from("Café,Zoë\n", "utf-8"))).toBe("utf-8");
+  });
+});
+
+describe("sniffDelimiter", () => {
+  it.each([
+    ["Name,Email,Company,Source", ","],
+    ["Name;Email;Company;Source", ";"],
+    ["Name\tEmail\tCompany\tSource", "\t"],
+    ["Name|Email|Company|Source", "|"],
+    ['"Name;Full",Email,Company,Source', ","],
+    ["Name", ","],
+  ])("sniffs %j as %j", (header, delimiter) => {
+    expect(sniffDelimiter(header)).toBe(delimiter);
+  });
+});
+
+describe("readLeadRows", () => {
+  let tmpDir: string;
+
+  function writeTemp(name: string, content: string | Buffer): string {
+    const filePath = path.join(tmpDir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "input-reader-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("reads semicolon-delimited CSV", async () => {
+    const file = writeTemp(
+      "leads.csv",
+      "Name;Email;Company;Source\nAlice Johnson;alice@example.com;Acme Inc;LinkedIn\n"
+    );
+
+    expect(await collect(readLeadRows(file))).toEqual([{ line: 2, lead: alice, raw: aliceRaw }]);
+  });
+
+  it("reads TSV by extension", async () => {
+    const file = writeTemp(
+      "leads.tsv",
+      "Name\tEmail\tCompany\tSource\nAlice Johnson\talice@example.com\tAcme Inc\tLinkedIn\n"
+    );
+
+    expect(await collect(readLeadRows(file))).toEqual([{ line: 2, lead: alice, raw: aliceRaw }]);
+  });
+
+  it("decodes UTF-16LE with a BOM", async () => {
+    const text = "Name,Email,Company,Source\nZoë Müller,zoe@example.com,Acme Inc,LinkedIn\n";
+    const file = writeTemp(
+      "leads.csv",
+      Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, "utf16le")])
+    );
+
+    const rows = await collect(readLeadRows(file));
+
+    expect(rows[0].lead.name).toBe("Zoë Müller");
+  });
+
+  it("decodes Latin-1", async () => {
+    const text = "Name,Email,Company,Source\nZoë Müller,zoe@example.com,Acme Inc,LinkedIn\n";
+    const file = writeTemp("leads.csv", Buffer.from(text, "latin1"));
+
+    const rows = await collect(readLeadRows(file));
+
+    expect(rows[0].lead.name).toBe("Zoë Müller");
+  });
+
+  it("reads a JSON array of lead objects", async () => {
+    const file = writeTemp(
+      "leads.json",
+      JSON.stringify([
+        { "Full Name": "Alice Johnson", email: "alice@example.com", Company: "Acme Inc", source: "LinkedIn" },
+      ])
+    );
+
+    expect(await collect(readLeadRows(file))).toEqual([
+      {
+        line: 1,
+        lead: alice,
+        raw: {
+          "Full Name": "Alice Johnson",
+          email: "alice@example.com",
+          Company: "Acme Inc",
+          source: "LinkedIn",
+        },
+      },
+    ]);
+  });
+
+  it("reads NDJSON chosen by the format option", async () => {
+    const file = writeTemp(
+      "leads.txt",
+      `${JSON.stringify({ name: "Alice Johnson", email: "alice@example.com", company: "Acme Inc", source: "LinkedIn" })}\n`
+    );
+
+    expect(await collect(readLeadRows(file, { format: "ndjson" }))).toEqual([
+      { line: 1, lead: alice, raw: { ...alice } },
+    ]);
+  });
+
+  it("throws a descriptive error when file is not found", async () => {
+    await expect(collect(readLeadRows(path.join(tmpDir, "missing.csv")))).rejects.toThrow(
+      /File not found/
+    );
+  });
+});
+
+describe("readLeadStream", () => {
+  it("sniffs NDJSON piped in without a format", async () => {
+    const input = Readable.from([
+      Buffer.from(`${JSON.stringify(alice)}\n`),
+      Buffer.from(`${JSON.stringify({ ...alice, email: "alice2@example.com" })}\n`),
+    ]);
+
+    const rows = await collect(readLeadStream(input));
+
+    expect(rows.map((r) => r.lead.email)).toEqual(["alice@example.com", "alice2@example.com"]);
+  });
+
+  it("reads CSV spread over several chunks", async () => {
+    const input = Readable.from([
+      Buffer.from("Name,Email,Company,Source\nAlice Johnson,alice@exa"),
+      Buffer.from("mple.com,Acme Inc,LinkedIn\n"),
+    ]);
+
+    expect(await collect(readLeadStream(input))).toEqual([
+      { line: 2, lead: alice, raw: aliceRaw },
+    ]);
+  });
+
+  it("sniffs the delimiter from a header line split over several chunks", async () => {
+    const input = Readable.from([
+      Buffer.from("Name"),
+      Buffer.from(";Email;Company;Source\nAlice Johnson;alice@example.com;Acme Inc;LinkedIn\n"),
+    ]);
+
+    const rows = await collect(readLeadStream(input));
+
+    expect(rows.map((r) => r.lead)).toEqual([alice]);
+  });
+});
+
+describe("countLeadRows", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "input-reader-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("counts rows, including malformed ones", async () => {
+    const file = path.join(tmpDir, "leads.csv");
+    fs.writeFileSync(
+      file,
+      "Name,Email,Company,Source\n" +
+        "Alice Johnson,alice@example.com,Acme Inc,LinkedIn\n" +
+        "Bob,bob@example.com\n" +
+        "Carol,carol@example.com,Initech,Referral\n"
+    );
+
+    expect(await countLeadRows(file)).toBe(3);
+  });
+
+  it("does not count standard input", async () => {
+    expect(await countLeadRows("-")).toBeUndefined();
+  });
+});
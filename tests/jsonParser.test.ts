@@ -0,0 +1,75 @@
+import { parseJSONStream, parseNDJSONStream } from "../src/jsonParser";
+import { ParsedRow } from "../src/csvParser";
+import { Readable } from "stream";
+
+async function collect(iterable: AsyncIterable<ParsedRow>): Promise<ParsedRow[]> {
+  const rows: ParsedRow[] = [];
+  for await (const row of iterable) {
+    rows.push(row);
+  }
+  return rows;
+}
+
+const ndjson = (...lines: string[]): Readable => Readable.from([lines.join("\n")]);
+
+describe("parseNDJSONStream", () => {
+  it("maps aliased keys and stringifies values", async () => {
+    const rows = await collect(
+      parseNDJSONStream(
+        ndjson(
+          JSON.stringify({ "E-mail Address": "alice@example.com", Organization: 42, name: null }),
+          "",
+          JSON.stringify({ email: "bob@startup.com", source: "Webinar" })
+        )
+      )
+    );
+
+    expect(rows).toEqual([
+      {
+        line: 1,
+        lead: { name: "", email: "alice@example.com", company: "42", source: "" },
+        raw: { "E-mail Address": "alice@example.com", Organization: "42", name: "" },
+      },
+      {
+        line: 3,
+        lead: { name: "", email: "bob@startup.com", company: "", source: "Webinar" },
+        raw: { email: "bob@startup.com", source: "Webinar" },
+      },
+    ]);
+  });
+
+  it("fails on a malformed line by default", async () => {
+    await expect(collect(parseNDJSONStream(ndjson("{}", "{oops")))).rejects.toThrow(
+      /Malformed JSON on line 2/
+    );
+  });
+
+  it("turns malformed lines into row errors in lenient mode", async () => {
+    const rows = await collect(
+      parseNDJSONStream(ndjson("{oops", "[1, 2]", '{"email": "a@b.com"}'), { lenient: true })
+    );
+
+    expect(rows[0]).toMatchObject({ line: 1, errors: [expect.stringMatching(/Malformed JSON on line 1/)] });
+    expect(rows[1]).toMatchObject({ line: 2, errors: ["Malformed record 2: expected a JSON object"] });
+    expect(rows[2].errors).toBeUndefined();
+  });
+});
+
+describe("parseJSONStream", () => {
+  it("numbers records by their position in the array", async () => {
+    const rows = await collect(
+      parseJSONStream(Readable.from([JSON.stringify([{ email: "a@b.com" }, { email: "c@d.com" }])]))
+    );
+
+    expect(rows.map((r) => [r.line, r.lead.email])).toEqual([
+      [1, "a@b.com"],
+      [2, "c@d.com"],
+    ]);
+  });
+
+  it("rejects a document that is not an array", async () => {
+    await expect(collect(parseJSONStream(Readable.from(['{"email": "a@b.com"}'])))).rejects.toThrow(
+      /expected an array/
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import { diffLeads, formatChange, toLeadUpdate } from "../src/leadDiff";
+import { Lead } from "../src/validator";
+
+function mockLead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    name: "Jane Doe",
+    email: "jane@example.com",
+    company: "Acme Corp",
+    source: "LinkedIn",
+    ...overrides,
+  };
+}
+
+describe("diffLeads", () => {
+  it("returns nothing for identical leads", () => {
+    expect(diffLeads(mockLead(), mockLead())).toEqual([]);
+  });
+
+  it("records before and after for changed core and custom fields", () => {
+    const existing = mockLead({
+      source: "Website",
+      custom: { jobTitle: "CEO", phone: "+1 555 0100" },
+    });
+    const incoming = mockLead({ name: "Jane D. Doe", custom: { jobTitle: "CTO", tags: ["vip"] } });
+
+    expect(diffLeads(existing, incoming, undefined, { addMissingCustomFields: true })).toEqual([
+      { field: "name", before: "Jane Doe", after: "Jane D. Doe" },
+      { field: "source", before: "Website", after: "LinkedIn" },
+      { field: "jobTitle", before: "CEO", after: "CTO" },
+      { field: "tags", after: ["vip"] },
+    ]);
+  });
+
+  it("leaves custom fields the existing lead lacks alone by default", () => {
+    const existing = mockLead({ custom: { jobTitle: "CEO" } });
+    const incoming = mockLead({ custom: { jobTitle: "CEO", phone: "+1 555 0100" } });
+
+    expect(diffLeads(existing, incoming)).toEqual([]);
+  });
+
+  it("ignores the email and company spelling variants", () => {
+    const existing = mockLead({ email: "Jane@Example.com", company: "ACME CORP." });
+    expect(diffLeads(existing, mockLead())).toEqual([]);
+  });
+});
+
+describe("toLeadUpdate", () => {
+  it("keeps only the changed fields", () => {
+    expect(
+      toLeadUpdate("jane@example.com", [
+        { field: "company", before: "Old Corp", after: "Acme Corp" },
+        { field: "tags", after: ["vip"] },
+      ])
+    ).toEqual({ email: "jane@example.com", company: "Acme Corp", custom: { tags: ["vip"] } });
+  });
+});
+
+describe("formatChange", () => {
+  it("shows before and after", () => {
+    expect(formatChange({ field: "company", before: "Old", after: "New" })).toBe(
+      'company: "Old" -> "New"'
+    );
+    expect(formatChange({ field: "tags", after: ["a", "b"] })).toBe('tags: (none) -> ["a","b"]');
+  });
+});
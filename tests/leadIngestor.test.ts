@@ -0,0 +1,177 @@
+import { LeadIngestor, LeadStoreClient } from "../src/lib";
+import { Lead } from "../src/validator";
+import { DEFAULT_COLUMN_MAPPING } from "../src/columnMapping";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+function mockLead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    name: "Jane Doe",
+    email: "jane@example.com",
+    company: "Acme Corp",
+    source: "LinkedIn",
+    ...overrides,
+  };
+}
+
+/** A lead store kept in memory */
+function memoryStore(leads: Lead[] = []) {
+  const records = new Map(leads.map((lead) => [lead.email, lead]));
+  const client: LeadStoreClient = {
+    lookupLead: jest.fn(async (email: string) => records.get(email) ?? null),
+    createLead: jest.fn(async (lead: Lead) => {
+      records.set(lead.email, lead);
+      return lead;
+    }),
+    updateLead: jest.fn(async (update) => {
+      const lead = { ...records.get(update.email)!, ...update } as Lead;
+      records.set(lead.email, lead);
+      return lead;
+    }),
+  };
+  return { client, records };
+}
+
+const silentLogger = () => ({
+  error: jest.fn(),
+  warn: jest.fn(),
+  info: jest.fn(),
+  debug: jest.fn(),
+});
+
+describe("LeadIngestor", () => {
+  it("writes leads through the client it was given", async () => {
+    const store = memoryStore([mockLead({ email: "bob@example.com", company: "Old Co" })]);
+    const ingestor = new LeadIngestor({ client: store.client, logger: silentLogger() });
+
+    const { summary } = await ingestor.ingest([
+      mockLead(),
+      mockLead({ name: "Bob", email: "bob@example.com", company: "New Co" }),
+    ]);
+
+    expect(summary).toMatchObject({ created: 1, updated: 1, errors: 0 });
+    expect(store.records.get("jane@example.com")).toEqual(mockLead());
+    expect(store.records.get("bob@example.com")?.company).toBe("New Co");
+  });
+
+  it("keeps instances with different stores apart", async () => {
+    const first = memoryStore();
+    const second = memoryStore([mockLead()]);
+
+    const [a, b] = await Promise.all([
+      new LeadIngestor({ client: first.client, logger: silentLogger() }).ingest([mockLead()]),
+      new LeadIngestor({ client: second.client, logger: silentLogger() }).ingest([mockLead()]),
+    ]);
+
+    expect(a.results[0].action).toBe("created");
+    expect(b.results[0].action).toBe("skipped");
+    expect(second.client.createLead).not.toHaveBeenCalled();
+  });
+
+  it("applies its configuration to every batch", async () => {
+    const store = memoryStore();
+    const ingestor = new LeadIngestor({
+      client: store.client,
+      config: { dryRun: true, email: { foldPlusTags: true } },
+      logger: silentLogger(),
+    });
+
+    const { results } = await ingestor.ingest([mockLead({ email: "jane+news@example.com" })]);
+
+    expect(results[0]).toMatchObject({
+      email: "jane@example.com",
+      action: "created",
+      dryRun: true,
+    });
+    expect(store.client.createLead).not.toHaveBeenCalled();
+  });
+
+  it("logs through the injected logger", async () => {
+    const logger = silentLogger();
+    const ingestor = new LeadIngestor({ client: memoryStore().client, logger });
+
+    await ingestor.ingest([mockLead()]);
+
+    expect(logger.info).toHaveBeenCalledWith("Lead created", { email: "jane@example.com" });
+  });
+
+  it("reports store failures as per-lead errors", async () => {
+    const store = memoryStore();
+    (store.client.lookupLead as jest.Mock).mockRejectedValueOnce(new Error("Store offline"));
+    const ingestor = new LeadIngestor({ client: store.client, logger: silentLogger() });
+
+    const { results } = await ingestor.ingest([mockLead()]);
+
+    expect(results[0]).toMatchObject({ action: "error", stage: "lookup", error: "Store offline" });
+  });
+
+  describe("ingestFile", () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "lead-ingestor-test-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("reads the file with the configured read options", async () => {
+      const file = path.join(tmpDir, "leads.txt");
+      fs.writeFileSync(
+        file,
+        "Contact;Email;Company;Source\nJane Doe;jane@example.com;Acme Corp;LinkedIn\n"
+      );
+      const store = memoryStore();
+      const mapping = { ...DEFAULT_COLUMN_MAPPING, name: ["Contact"] };
+      const ingestor = new LeadIngestor({
+        client: store.client,
+        config: { read: { delimiter: ";", mapping } },
+        logger: silentLogger(),
+      });
+
+      const { results } = await ingestor.ingestFile(file);
+
+      expect(results).toEqual([expect.objectContaining({ line: 2, action: "created" })]);
+      expect(store.records.get("jane@example.com")).toEqual(mockLead());
+    });
+
+    it("logs reading the file through the injected logger", async () => {
+      const file = path.join(tmpDir, "leads.csv");
+      fs.writeFileSync(
+        file,
+        "name,email,company,source\nJane Doe,jane@example.com,Acme Corp,LinkedIn\n"
+      );
+      const logger = silentLogger();
+      const ingestor = new LeadIngestor({ client: memoryStore().client, logger });
+
+      await ingestor.ingestFile(file);
+
+      expect(logger.debug).toHaveBeenCalledWith(
+        "Reading input",
+        expect.objectContaining({ source: file, format: "csv" })
+      );
+    });
+
+    it("keeps the rows written before a malformed row stops a strict read", async () => {
+      const file = path.join(tmpDir, "leads.csv");
+      fs.writeFileSync(
+        file,
+        "name,email,company,source\n" +
+          "Jane Doe,jane@example.com,Acme Corp,LinkedIn\n" +
+          "Bob,bob@example.com\n" +
+          "Ann,ann@example.com,Acme Corp,LinkedIn\n"
+      );
+      const store = memoryStore();
+      const ingestor = new LeadIngestor({ client: store.client, logger: silentLogger() });
+
+      const { results, summary, aborted } = await ingestor.ingestFile(file);
+
+      expect(results).toEqual([expect.objectContaining({ line: 2, action: "created" })]);
+      expect(summary).toMatchObject({ total: 1, created: 1 });
+      expect(aborted).toBe("Malformed row 3: expected 4 columns, got 2");
+      expect(store.records.has("ann@example.com")).toBe(false);
+    });
+  });
+});
@@ -1,10 +1,29 @@
-import { processLeads, ProcessResult, ProcessSummary } from "../src/leadProcessor";
+import {
+  combineSummaries,
+  LeadInput,
+  processLeads,
+  ProcessOptions,
+  ProcessResult,
+  ProcessSummary,
+} from "../src/leadProcessor";
 import { Lead } from "../src/validator";
-import * as apiClient from "../src/apiClient";
+import { LeadStoreClient } from "../src/apiClient";
+import { CheckpointEntry, CheckpointJournal } from "../src/checkpoint";
+import { RunLog, RunLogEntry } from "../src/runLog";
+import { RetriesExhaustedError } from "../src/errors";
+import { LeadPlugin } from "../src/plugins";
 
-jest.mock("../src/apiClient");
+const mockedApiClient: jest.Mocked<LeadStoreClient> = {
+  lookupLead: jest.fn(),
+  createLead: jest.fn(),
+  updateLead: jest.fn(),
+};
 
-const mockedApiClient = apiClient as jest.Mocked<typeof apiClient>;
+/** Runs processLeads against the mock client */
+const processBatch = (
+  leads: Iterable<LeadInput> | AsyncIterable<LeadInput>,
+  options: Omit<ProcessOptions, "client"> = {}
+): Promise<ProcessResult> => processLeads(leads, { client: mockedApiClient, ...options });
 
 function mockLead(overrides: Partial<Lead> = {}): Lead {
   return {
@@ -27,7 +46,7 @@ describe("leadProcessor", () => {
       mockedApiClient.lookupLead.mockResolvedValueOnce(null);
       mockedApiClient.createLead.mockResolvedValueOnce(lead);
 
-      const { results } = await processLeads([lead]);
+      const { results } = await processBatch([lead]);
 
       expect(mockedApiClient.lookupLead).toHaveBeenCalledWith("jane@example.com");
       expect(mockedApiClient.createLead).toHaveBeenCalledWith(lead);
@@ -46,10 +65,16 @@ describe("leadProcessor", () => {
       mockedApiClient.lookupLead.mockResolvedValueOnce(existingLead);
       mockedApiClient.updateLead.mockResolvedValueOnce(updatedLead);
 
-      const { results } = await processLeads([incomingLead]);
+      const { results } = await processBatch([incomingLead]);
 
       expect(mockedApiClient.lookupLead).toHaveBeenCalledWith("jane@example.com");
-      expect(mockedApiClient.updateLead).toHaveBeenCalledWith(incomingLead);
+      expect(mockedApiClient.updateLead).toHaveBeenCalledWith({
+        email: "jane@example.com",
+        company: "New Corp",
+      });
+      expect(results[0].changes).toEqual([
+        { field: "company", before: "Old Corp", after: "New Corp" },
+      ]);
       expect(mockedApiClient.createLead).not.toHaveBeenCalled();
       expect(results).toHaveLength(1);
       expect(results[0].action).toBe("updated");
@@ -61,7 +86,7 @@ describe("leadProcessor", () => {
 
       mockedApiClient.lookupLead.mockResolvedValueOnce(existingLead);
 
-      const { results } = await processLeads([lead]);
+      const { results } = await processBatch([lead]);
 
       expect(mockedApiClient.lookupLead).toHaveBeenCalledWith("jane@example.com");
       expect(mockedApiClient.updateLead).not.toHaveBeenCalled();
@@ -71,11 +96,830 @@ describe("leadProcessor", () => {
     });
   });
 
+  describe("source normalization", () => {
+    it("sends the canonical source", async () => {
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead());
+
+      await processBatch([mockLead({ source: "linked in" })]);
+
+      expect(mockedApiClient.createLead).toHaveBeenCalledWith(mockLead({ source: "LinkedIn" }));
+    });
+  });
+
+  describe("validation warnings", () => {
+    it("processes the lead and records the warnings", async () => {
+      const lead = mockLead();
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(lead);
+
+      const { results } = await processBatch([lead], {
+        rules: [{ id: "phone.wanted", field: "phone", type: "required", severity: "warning" }],
+      });
+
+      expect(results[0].action).toBe("created");
+      expect(results[0].warnings).toEqual(["Phone is required"]);
+    });
+  });
+
+  describe("email normalization and screening", () => {
+    it("normalizes the email before lookup and duplicate detection", async () => {
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead());
+
+      const { results } = await processBatch(
+        [
+          mockLead({ email: " Jane+news@Example.com. " }),
+          mockLead({ email: "jane@example.com" }),
+        ],
+        { email: { foldPlusTags: true } }
+      );
+
+      expect(mockedApiClient.lookupLead).toHaveBeenCalledWith("jane@example.com");
+      expect(results.map((r) => r.action)).toEqual(["created", "skipped"]);
+    });
+
+    it("rejects screened addresses without calling the API", async () => {
+      const { results } = await processBatch([mockLead({ email: "jane@mailinator.com" })], {
+        email: { disposableAction: "reject" },
+      });
+
+      expect(results[0].action).toBe("error");
+      expect(results[0].errors).toEqual(["Disposable email domain"]);
+      expect(mockedApiClient.lookupLead).not.toHaveBeenCalled();
+    });
+
+    it("tags screened addresses and records warnings", async () => {
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead());
+
+      const { results } = await processBatch([mockLead({ email: "info@mailinator.com" })], {
+        email: { roleAction: "tag" },
+      });
+
+      expect(mockedApiClient.createLead).toHaveBeenCalledWith(
+        mockLead({ email: "info@mailinator.com", custom: { tags: ["role-account"] } })
+      );
+      expect(results[0].warnings).toEqual(["Disposable email domain"]);
+    });
+  });
+
+  describe("company canonicalization", () => {
+    it("skips leads whose company only differs in form", async () => {
+      mockedApiClient.lookupLead.mockResolvedValueOnce(mockLead({ company: "Acme, Inc." }));
+
+      const { results } = await processBatch([mockLead({ company: "ACME INC" })]);
+
+      expect(results[0].action).toBe("skipped");
+      expect(mockedApiClient.updateLead).not.toHaveBeenCalled();
+    });
+
+    it("writes the normalized company", async () => {
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead());
+
+      await processBatch([mockLead({ company: "  Globex   Intl " })], {
+        companyAliases: { "globex intl": "Globex International" },
+      });
+
+      expect(mockedApiClient.createLead).toHaveBeenCalledWith(
+        mockLead({ company: "Globex International" })
+      );
+    });
+  });
+
+  describe("duplicate analysis", () => {
+    it("reports likely duplicates and holds new ones back", async () => {
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null).mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead());
+
+      const { results, duplicates } = await processBatch(
+        [mockLead({ email: "jane.doe@example.com" }), mockLead({ email: "jdoe@example.com" })],
+        { duplicateAnalysis: { hold: true } }
+      );
+
+      expect(duplicates).toHaveLength(1);
+      expect(results.map((r) => r.action)).toEqual(["created", "skipped"]);
+      expect(results[1].details).toBe("Held for duplicate review");
+      expect(mockedApiClient.createLead).toHaveBeenCalledTimes(1);
+    });
+
+    it("still updates held leads that already exist", async () => {
+      mockedApiClient.lookupLead
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(mockLead({ email: "jdoe@example.com", company: "Old Corp" }));
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead());
+      mockedApiClient.updateLead.mockResolvedValueOnce(mockLead());
+
+      const { results } = await processBatch(
+        [mockLead({ email: "jane.doe@example.com" }), mockLead({ email: "jdoe@example.com" })],
+        { duplicateAnalysis: { hold: true } }
+      );
+
+      expect(results.map((r) => r.action)).toEqual(["created", "updated"]);
+    });
+
+    it("only reports without hold", async () => {
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null).mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead()).mockResolvedValueOnce(mockLead());
+
+      const { results, duplicates } = await processBatch(
+        [mockLead({ email: "jane.doe@example.com" }), mockLead({ email: "jdoe@example.com" })],
+        { duplicateAnalysis: {} }
+      );
+
+      expect(duplicates).toHaveLength(1);
+      expect(results.map((r) => r.action)).toEqual(["created", "created"]);
+    });
+  });
+
+  describe("duplicate strategies", () => {
+    const rows = [
+      { line: 2, lead: mockLead({ company: "Old Corp", source: "" }) },
+      { line: 3, lead: mockLead({ company: "", source: "Website" }) },
+    ];
+
+    it("records the kept row when the first occurrence wins", async () => {
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead());
+
+      const { results } = await processBatch([mockLead(), mockLead()]);
+
+      expect(results[1]).toMatchObject({ action: "skipped", foldedInto: 1 });
+    });
+
+    it("keeps the last occurrence", async () => {
+      const valid = [rows[0], { line: 3, lead: mockLead({ company: "New Corp" }) }];
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(valid[1].lead);
+
+      const { results } = await processBatch(valid, { duplicateStrategy: "last" });
+
+      expect(results[0]).toMatchObject({
+        action: "skipped",
+        details: "Superseded by row 3",
+        foldedInto: 3,
+      });
+      expect(results[1]).toMatchObject({ action: "created", foldedFrom: [2] });
+      expect(mockedApiClient.createLead).toHaveBeenCalledWith(valid[1].lead);
+    });
+
+    it("merges complementary rows", async () => {
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead());
+
+      const { results } = await processBatch(rows, { duplicateStrategy: "merge" });
+
+      expect(mockedApiClient.createLead).toHaveBeenCalledWith(
+        mockLead({ company: "Old Corp", source: "Website" })
+      );
+      expect(results[0]).toMatchObject({ action: "created", line: 2, foldedFrom: [3] });
+      expect(results[1]).toMatchObject({ action: "skipped", details: "Merged into row 2" });
+    });
+
+    it("rejects every occurrence with the error strategy", async () => {
+      const { results, summary } = await processBatch(rows, { duplicateStrategy: "error" });
+
+      expect(summary.errors).toBe(2);
+      expect(results[0].errors).toEqual(["Duplicate email in batch: also in row(s) 3"]);
+      expect(mockedApiClient.lookupLead).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("concurrency", () => {
+    afterEach(() => {
+      mockedApiClient.lookupLead.mockReset();
+      mockedApiClient.createLead.mockReset();
+    });
+
+    it("keeps results in input order", async () => {
+      const leads = ["a", "b", "c", "d"].map((name) => mockLead({ email: `${name}@example.com` }));
+      mockedApiClient.lookupLead.mockImplementation(async (email) => {
+        await new Promise((resolve) => setTimeout(resolve, email.startsWith("a") ? 20 : 0));
+        return null;
+      });
+      mockedApiClient.createLead.mockImplementation(async (lead) => lead);
+
+      const { results } = await processBatch(leads, { concurrency: 3 });
+
+      expect(results.map((r) => r.email)).toEqual(leads.map((l) => l.email));
+      expect(results.every((r) => r.action === "created")).toBe(true);
+    });
+
+    it("creates a repeated email once even when both rows are in flight", async () => {
+      mockedApiClient.lookupLead.mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return null;
+      });
+      mockedApiClient.createLead.mockImplementation(async (lead) => lead);
+
+      const { results } = await processBatch([mockLead(), mockLead({ name: "Jane Dupe" })], {
+        concurrency: 2,
+      });
+
+      expect(results.map((r) => r.action)).toEqual(["created", "skipped"]);
+      expect(mockedApiClient.lookupLead).toHaveBeenCalledTimes(1);
+      expect(mockedApiClient.createLead).toHaveBeenCalledTimes(1);
+    });
+
+    describe("with a hook that rewrites emails", () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      beforeEach(() => {
+        inFlight = 0;
+        maxInFlight = 0;
+        mockedApiClient.lookupLead.mockImplementation(async () => {
+          maxInFlight = Math.max(maxInFlight, ++inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          inFlight--;
+          return null;
+        });
+        mockedApiClient.createLead.mockImplementation(async (lead) => lead);
+      });
+
+      it("skips a row the hook turns into a duplicate of one in flight", async () => {
+        const plugins: LeadPlugin[] = [
+          { name: "alias", transform: (lead) => ({ ...lead, email: "jane@example.com" }) },
+        ];
+
+        const { results } = await processBatch(
+          [mockLead(), mockLead({ email: "j.doe@example.com" })],
+          { concurrency: 2, plugins }
+        );
+
+        expect(results.map((r) => r.action)).toEqual(["created", "skipped"]);
+        expect(mockedApiClient.createLead).toHaveBeenCalledTimes(1);
+      });
+
+      it("keeps the first row when an async hook finishes it last", async () => {
+        const plugins: LeadPlugin[] = [
+          {
+            name: "slow-alias",
+            transform: async (lead, { row }) => {
+              await new Promise((resolve) => setTimeout(resolve, row === 1 ? 20 : 0));
+              return { ...lead, email: "jane@example.com" };
+            },
+          },
+        ];
+
+        const { results } = await processBatch(
+          [mockLead({ name: "First" }), mockLead({ name: "Second", email: "j.doe@example.com" })],
+          { concurrency: 2, plugins }
+        );
+
+        expect(results.map((r) => [r.lead.name, r.action])).toEqual([
+          ["First", "created"],
+          ["Second", "skipped"],
+        ]);
+        expect(results[1].foldedInto).toBe(1);
+      });
+
+      it("does not hold back rows the hook gives different emails", async () => {
+        const plugins: LeadPlugin[] = [
+          {
+            name: "splitter",
+            transform: (lead, { row }) => ({ ...lead, email: `jane${row}@example.com` }),
+          },
+        ];
+
+        const { results } = await processBatch([mockLead(), mockLead()], {
+          concurrency: 2,
+          plugins,
+        });
+
+        expect(results.map((r) => [r.email, r.action])).toEqual([
+          ["jane1@example.com", "created"],
+          ["jane2@example.com", "created"],
+        ]);
+        expect(maxInFlight).toBe(2);
+      });
+    });
+  });
+
+  describe("dry run", () => {
+    it("looks leads up but never writes, recording the planned changes", async () => {
+      mockedApiClient.lookupLead
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(mockLead({ email: "old@example.com", company: "Old Corp" }));
+
+      const { results, summary } = await processBatch(
+        [mockLead(), mockLead({ email: "old@example.com" })],
+        { dryRun: true }
+      );
+
+      expect(mockedApiClient.lookupLead).toHaveBeenCalledTimes(2);
+      expect(mockedApiClient.createLead).not.toHaveBeenCalled();
+      expect(mockedApiClient.updateLead).not.toHaveBeenCalled();
+      expect(results[0]).toMatchObject({ action: "created", details: "Would create", dryRun: true });
+      expect(results[1]).toMatchObject({
+        action: "updated",
+        details: "Would update",
+        changes: [{ field: "company", before: "Old Corp", after: "Acme Corp" }],
+      });
+      expect(summary).toMatchObject({ created: 1, updated: 1 });
+    });
+  });
+
+  describe("merge policies", () => {
+    it("sends only the changes the policies allow", async () => {
+      mockedApiClient.lookupLead.mockResolvedValueOnce(
+        mockLead({ company: "Globex", custom: { jobTitle: "" } })
+      );
+      mockedApiClient.updateLead.mockResolvedValueOnce(mockLead());
+
+      const { results } = await processBatch([mockLead({ custom: { jobTitle: "CTO" } })], {
+        mergePolicies: { fields: { company: "never", jobTitle: "fill-blank" } },
+      });
+
+      expect(mockedApiClient.updateLead).toHaveBeenCalledWith({
+        email: "jane@example.com",
+        custom: { jobTitle: "CTO" },
+      });
+      expect(results[0].action).toBe("updated");
+    });
+
+    it("skips when the policies allow no change", async () => {
+      mockedApiClient.lookupLead.mockResolvedValueOnce(mockLead({ company: "Globex" }));
+
+      const { results } = await processBatch([mockLead()], {
+        mergePolicies: { default: "fill-blank" },
+      });
+
+      expect(mockedApiClient.updateLead).not.toHaveBeenCalled();
+      expect(results[0]).toMatchObject({
+        action: "skipped",
+        details: "No changes allowed by merge policy",
+      });
+    });
+  });
+
+  describe("checkpoints", () => {
+    function memoryJournal(completed: CheckpointEntry[] = []) {
+      const recorded: CheckpointEntry[] = [];
+      const journal: CheckpointJournal = {
+        path: "memory",
+        completed: new Map(completed.map((entry) => [entry.position, entry])),
+        record: (entry) => recorded.push(entry),
+        close: () => undefined,
+        discard: () => undefined,
+      };
+      return { journal, recorded };
+    }
+
+    it("records completed rows but not errors", async () => {
+      const { journal, recorded } = memoryJournal();
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead());
+
+      await processBatch([mockLead(), mockLead({ email: "bad" }), mockLead()], {
+        checkpoint: journal,
+      });
+
+      expect(recorded.map((e) => [e.position, e.claimed, e.result.action])).toEqual([
+        [0, true, "created"],
+        [2, false, "skipped"],
+      ]);
+    });
+
+    it("skips rows a previous session completed and merges their results", async () => {
+      const { journal } = memoryJournal([
+        {
+          position: 0,
+          claimed: true,
+          result: {
+            email: "jane@example.com",
+            action: "created",
+            details: "Lead created successfully",
+            lead: mockLead(),
+          },
+        },
+      ]);
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead());
+
+      const { results, summary } = await processBatch(
+        [mockLead(), mockLead({ email: "new@example.com" }), mockLead({ name: "Jane Again" })],
+        { checkpoint: journal }
+      );
+
+      expect(mockedApiClient.lookupLead).toHaveBeenCalledTimes(1);
+      expect(mockedApiClient.lookupLead).toHaveBeenCalledWith("new@example.com");
+      expect(results[0]).toMatchObject({ action: "created", resumed: true });
+      expect(results[2]).toMatchObject({ action: "skipped", foldedInto: 1 });
+      expect(summary).toMatchObject({ total: 3, created: 2, skipped: 1 });
+    });
+  });
+
+  describe("run log", () => {
+    it("records creates and updates with the lead as it was before", async () => {
+      const entries: RunLogEntry[] = [];
+      const runLog = { record: (entry: RunLogEntry) => entries.push(entry) } as unknown as RunLog;
+      const existing = mockLead({ email: "old@example.com", company: "Old Corp" });
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null).mockResolvedValueOnce(existing);
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead());
+      mockedApiClient.updateLead.mockResolvedValueOnce(mockLead());
+
+      await processBatch(
+        [mockLead(), mockLead({ email: "old@example.com", company: "New Corp" })],
+        { runLog }
+      );
+
+      expect(entries).toEqual([
+        { kind: "created", email: "jane@example.com" },
+        {
+          kind: "updated",
+          email: "old@example.com",
+          before: existing,
+          changes: [{ field: "company", before: "Old Corp", after: "New Corp" }],
+        },
+      ]);
+    });
+
+    it("records nothing for failed writes", async () => {
+      const runLog = { record: jest.fn() } as unknown as RunLog;
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockRejectedValueOnce(new Error("Server error"));
+
+      await processBatch([mockLead()], { runLog });
+
+      expect(runLog.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("requeue", () => {
+    const throttled = () => new RetriesExhaustedError(3, new Error("Rate limit exceeded"));
+
+    it("flags transient failures and leaves them alone without requeue", async () => {
+      mockedApiClient.lookupLead
+        .mockRejectedValueOnce(throttled())
+        .mockRejectedValueOnce(new Error("Request failed with status code 400"));
+
+      const { results } = await processBatch([
+        mockLead(),
+        mockLead({ email: "bob@example.com" }),
+      ]);
+
+      expect(results.map((r) => [r.action, r.stage, r.transient])).toEqual([
+        ["error", "lookup", true],
+        ["error", "lookup", undefined],
+      ]);
+      expect(mockedApiClient.lookupLead).toHaveBeenCalledTimes(2);
+    });
+
+    it("keeps the lead as read on a transient failure, before hooks changed it", async () => {
+      const plugins: LeadPlugin[] = [
+        { name: "tagger", transform: (lead) => ({ ...lead, custom: { tags: ["imported"] } }) },
+      ];
+      mockedApiClient.lookupLead.mockRejectedValueOnce(throttled());
+      const input = mockLead({ email: "Jane@Example.com" });
+
+      const { results } = await processBatch([input], { plugins });
+
+      expect(results[0]).toMatchObject({
+        transient: true,
+        lead: mockLead({ custom: { tags: ["imported"] } }),
+        original: input,
+      });
+    });
+
+    it("retries transient failures once after the main pass", async () => {
+      mockedApiClient.lookupLead
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null);
+      mockedApiClient.createLead
+        .mockRejectedValueOnce(throttled())
+        .mockResolvedValueOnce(mockLead({ email: "bob@example.com" }))
+        .mockResolvedValueOnce(mockLead());
+
+      const { results, summary } = await processBatch(
+        [mockLead(), mockLead({ email: "bob@example.com" }), mockLead({ name: "Jane Again" })],
+        { requeue: { cooldownMs: 0 } }
+      );
+
+      expect(mockedApiClient.createLead.mock.calls.map(([lead]) => lead.email)).toEqual([
+        "jane@example.com",
+        "bob@example.com",
+        "jane@example.com",
+      ]);
+      expect(results[0]).toMatchObject({ action: "created", requeued: true });
+      expect(results[1].requeued).toBeUndefined();
+      expect(results[2]).toMatchObject({ action: "skipped", details: "Duplicate email in batch" });
+      expect(summary).toMatchObject({ created: 2, skipped: 1, errors: 0 });
+    });
+
+    it("reports each result as it completes, and requeued rows again", async () => {
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null).mockResolvedValueOnce(null);
+      mockedApiClient.createLead
+        .mockRejectedValueOnce(throttled())
+        .mockResolvedValueOnce(mockLead());
+      const onResult = jest.fn();
+
+      await processBatch([mockLead()], { requeue: { cooldownMs: 0 }, onResult });
+
+      expect(onResult.mock.calls.map(([r]) => [r.action, r.requeued])).toEqual([
+        ["error", undefined],
+        ["created", true],
+      ]);
+    });
+
+    it("keeps the error when the second attempt fails too", async () => {
+      mockedApiClient.lookupLead
+        .mockRejectedValueOnce(throttled())
+        .mockRejectedValueOnce(throttled());
+
+      const { results } = await processBatch([mockLead()], { requeue: { cooldownMs: 0 } });
+
+      expect(results[0]).toMatchObject({ action: "error", transient: true, requeued: true });
+      expect(mockedApiClient.lookupLead).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("plugins", () => {
+    it("runs lead hooks in order and writes the changed lead", async () => {
+      const calls: string[] = [];
+      const plugins: LeadPlugin[] = [
+        {
+          name: "tagger",
+          beforeValidate: (lead) => {
+            calls.push("beforeValidate");
+            return { ...lead, source: "linkedin" };
+          },
+          transform: (lead) => {
+            calls.push(`transform ${lead.source}`);
+            return { ...lead, custom: { tags: ["imported"] } };
+          },
+        },
+        {
+          name: "stamper",
+          beforeWrite: (lead, context) => {
+            calls.push(`beforeWrite ${context.existing === null ? "new" : "existing"}`);
+            return { ...lead, name: lead.name.toUpperCase() };
+          },
+        },
+      ];
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead());
+
+      const { results } = await processBatch([mockLead()], { plugins });
+
+      expect(calls).toEqual(["beforeValidate", "transform LinkedIn", "beforeWrite new"]);
+      expect(mockedApiClient.createLead).toHaveBeenCalledWith(
+        mockLead({ name: "JANE DOE", custom: { tags: ["imported"] } })
+      );
+      expect(results[0].action).toBe("created");
+    });
+
+    it("skips a vetoed lead with the plugin's reason", async () => {
+      const plugins: LeadPlugin[] = [
+        {
+          name: "internal-filter",
+          transform: (lead) =>
+            lead.email.endsWith("@acme.com") ? { veto: "Internal address" } : undefined,
+        },
+      ];
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead());
+
+      const { results, summary } = await processBatch(
+        [mockLead({ email: "me@acme.com" }), mockLead()],
+        { plugins }
+      );
+
+      expect(results[0]).toMatchObject({
+        action: "skipped",
+        stage: "plugin",
+        details: "Vetoed by plugin internal-filter",
+        errors: ["Internal address"],
+      });
+      expect(mockedApiClient.lookupLead).toHaveBeenCalledTimes(1);
+      expect(summary).toMatchObject({ created: 1, skipped: 1 });
+    });
+
+    it("passes the stored lead to beforeWrite and can veto the update", async () => {
+      const beforeWrite = jest.fn().mockResolvedValue({ veto: "Owned by sales" });
+      mockedApiClient.lookupLead.mockResolvedValueOnce(mockLead({ company: "Old Corp" }));
+
+      const { results } = await processBatch([mockLead()], {
+        plugins: [{ name: "guard", beforeWrite }],
+      });
+
+      expect(beforeWrite).toHaveBeenCalledWith(mockLead(), {
+        row: 1,
+        dryRun: false,
+        existing: mockLead({ company: "Old Corp" }),
+      });
+      expect(results[0]).toMatchObject({ action: "skipped", stage: "plugin" });
+      expect(mockedApiClient.updateLead).not.toHaveBeenCalled();
+    });
+
+    it("turns a failing hook into an error for that lead only", async () => {
+      const plugins: LeadPlugin[] = [
+        {
+          name: "enricher",
+          transform: async (lead) => {
+            if (lead.email === "jane@example.com") throw new Error("Enrichment API down");
+          },
+        },
+      ];
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead({ email: "bob@example.com" }));
+
+      const { results } = await processBatch(
+        [mockLead(), mockLead({ email: "bob@example.com" })],
+        { plugins }
+      );
+
+      expect(results[0]).toMatchObject({
+        action: "error",
+        stage: "plugin",
+        details: "Plugin enricher failed in transform",
+        errors: ["Enrichment API down"],
+      });
+      expect(results[1].action).toBe("created");
+    });
+
+    it("reports a hook that returns neither a lead nor a veto", async () => {
+      const broken = { name: "broken", beforeValidate: () => "oops" };
+      const plugins = [broken] as unknown as LeadPlugin[];
+
+      const { results } = await processBatch([mockLead()], { plugins });
+
+      expect(results[0]).toMatchObject({
+        action: "error",
+        errors: ["returned neither a lead (with name, email, company, source) nor a veto"],
+      });
+    });
+
+    it("validates what a transform returns again", async () => {
+      const plugins: LeadPlugin[] = [
+        { name: "blanker", transform: (lead) => ({ ...lead, company: "" }) },
+      ];
+
+      const { results } = await processBatch([mockLead()], { plugins });
+
+      expect(results[0]).toMatchObject({
+        action: "error",
+        stage: "validation",
+        details: "Validation failed after transform",
+      });
+      expect(mockedApiClient.lookupLead).not.toHaveBeenCalled();
+    });
+
+    it("normalizes an email a transform changes before looking it up", async () => {
+      const plugins: LeadPlugin[] = [
+        { name: "rewriter", transform: (lead) => ({ ...lead, email: "Jane.Doe@Example.COM" }) },
+      ];
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead());
+
+      const { results } = await processBatch([mockLead()], { plugins });
+
+      expect(results[0]).toMatchObject({ email: "jane.doe@example.com", action: "created" });
+      expect(mockedApiClient.lookupLead).toHaveBeenCalledWith("jane.doe@example.com");
+    });
+
+    it("rejects a beforeWrite hook that changes the email after the lookup", async () => {
+      const plugins: LeadPlugin[] = [
+        { name: "swapper", beforeWrite: (lead) => ({ ...lead, email: "other@example.com" }) },
+      ];
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+
+      const { results } = await processBatch([mockLead()], { plugins });
+
+      expect(results[0]).toMatchObject({
+        action: "error",
+        stage: "plugin",
+        details: "Plugin swapper failed in beforeWrite",
+        errors: ["changed the email of a lead that was already looked up"],
+      });
+      expect(mockedApiClient.createLead).not.toHaveBeenCalled();
+    });
+
+    it("validates what a beforeWrite hook returns before writing it", async () => {
+      const plugins: LeadPlugin[] = [
+        { name: "blanker", beforeWrite: (lead) => ({ ...lead, name: " " }) },
+      ];
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+
+      const { results } = await processBatch([mockLead()], { plugins });
+
+      expect(results[0]).toMatchObject({
+        action: "error",
+        stage: "validation",
+        details: "Validation failed after beforeWrite",
+      });
+      expect(mockedApiClient.createLead).not.toHaveBeenCalled();
+    });
+
+    it("shows afterLead each result and turns its failures into errors", async () => {
+      const seen: string[] = [];
+      const plugins: LeadPlugin[] = [
+        {
+          name: "audit",
+          afterLead: (result) => {
+            seen.push(`${result.email} ${result.action}`);
+            if (result.action === "created") throw new Error("Audit log full");
+          },
+        },
+      ];
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead());
+
+      const { results } = await processBatch([mockLead(), mockLead({ email: "bad" })], {
+        plugins,
+      });
+
+      expect(seen).toEqual(["jane@example.com created", "bad error"]);
+      expect(results[0]).toMatchObject({
+        action: "error",
+        stage: "plugin",
+        details: "Plugin audit failed in afterLead",
+      });
+    });
+
+    it("calls afterRun with the batch result and ignores its failures", async () => {
+      const afterRun = jest.fn().mockRejectedValue(new Error("Webhook down"));
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead());
+
+      const processed = await processBatch([mockLead()], {
+        plugins: [{ name: "notifier", afterRun }],
+      });
+
+      expect(afterRun).toHaveBeenCalledWith(processed);
+      expect(processed.summary).toMatchObject({ created: 1, errors: 0 });
+    });
+  });
+
+  describe("custom fields", () => {
+    it("updates when a custom field differs and ignores remote-only fields", async () => {
+      const incoming = mockLead({ custom: { jobTitle: "CTO" } });
+      mockedApiClient.lookupLead.mockResolvedValueOnce(
+        mockLead({ custom: { jobTitle: "CEO", phone: "+1 555 0100" } })
+      );
+      mockedApiClient.updateLead.mockResolvedValueOnce(incoming);
+
+      const { results } = await processBatch([incoming]);
+
+      expect(results[0].action).toBe("updated");
+      expect(mockedApiClient.updateLead).toHaveBeenCalledWith({
+        email: "jane@example.com",
+        custom: { jobTitle: "CTO" },
+      });
+    });
+
+    it("skips when the custom fields it carries already match", async () => {
+      const incoming = mockLead({ custom: { tags: ["vip"] } });
+      mockedApiClient.lookupLead.mockResolvedValueOnce(
+        mockLead({ custom: { tags: ["vip"], phone: "+1 555 0100" } })
+      );
+
+      const { results } = await processBatch([incoming]);
+
+      expect(mockedApiClient.updateLead).not.toHaveBeenCalled();
+      expect(results[0].action).toBe("skipped");
+    });
+
+    it("skips a rerun against a store that does not return custom fields", async () => {
+      const incoming = mockLead({ custom: { phone: "+1 555 0100", tags: ["vip"] } });
+      // The lead as the store returns it after the first run created it
+      mockedApiClient.lookupLead.mockResolvedValueOnce(mockLead());
+
+      const { results } = await processBatch([incoming]);
+
+      expect(results[0]).toMatchObject({ action: "skipped", stage: "unchanged" });
+      expect(mockedApiClient.updateLead).not.toHaveBeenCalled();
+    });
+
+    it("adds missing custom fields when configured to", async () => {
+      const incoming = mockLead({ custom: { phone: "+1 555 0100" } });
+      mockedApiClient.lookupLead.mockResolvedValueOnce(mockLead());
+      mockedApiClient.updateLead.mockResolvedValueOnce(incoming);
+
+      const { results } = await processBatch([incoming], { addMissingCustomFields: true });
+
+      expect(results[0].action).toBe("updated");
+      expect(mockedApiClient.updateLead).toHaveBeenCalledWith({
+        email: "jane@example.com",
+        custom: { phone: "+1 555 0100" },
+      });
+    });
+
+    it("rejects custom values of the wrong type", async () => {
+      const { results } = await processBatch([mockLead({ custom: { phone: "call me" } })]);
+
+      expect(results[0].action).toBe("error");
+      expect(results[0].errors).toContain("Invalid phone: expected phone");
+    });
+  });
+
   describe("invalid lead", () => {
     it("returns action='error' for invalid email and never calls API", async () => {
       const lead = mockLead({ email: "bademail" });
 
-      const { results } = await processLeads([lead]);
+      const { results } = await processBatch([lead]);
 
       expect(mockedApiClient.lookupLead).not.toHaveBeenCalled();
       expect(mockedApiClient.createLead).not.toHaveBeenCalled();
@@ -86,6 +930,78 @@ describe("leadProcessor", () => {
     });
   });
 
+  describe("streamed input", () => {
+    it("processes leads from an async iterable", async () => {
+      async function* stream() {
+        yield mockLead({ email: "one@example.com" });
+        yield mockLead({ email: "two@example.com" });
+      }
+
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null).mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockImplementationOnce(async (lead) => lead);
+      mockedApiClient.createLead.mockImplementationOnce(async (lead) => lead);
+
+      const { results, summary } = await processBatch(stream());
+
+      expect(results.map((r) => r.email)).toEqual(["one@example.com", "two@example.com"]);
+      expect(summary.created).toBe(2);
+    });
+
+    it("keeps the rows read before the stream fails and reports why it stopped", async () => {
+      async function* stream() {
+        yield mockLead({ email: "one@example.com" });
+        throw new Error("Malformed row 3: expected 4 columns, got 2");
+      }
+
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockImplementationOnce(async (lead) => lead);
+
+      const { results, summary, aborted } = await processBatch(stream());
+
+      expect(results.map((r) => [r.email, r.action])).toEqual([["one@example.com", "created"]]);
+      expect(summary).toMatchObject({ total: 1, created: 1 });
+      expect(aborted).toBe("Malformed row 3: expected 4 columns, got 2");
+    });
+  });
+
+  describe("parsed rows", () => {
+    it("records the source line and turns malformed rows into errors", async () => {
+      const good = mockLead({ email: "good@example.com" });
+      const bad = mockLead({ email: "bad@example.com" });
+
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+      mockedApiClient.createLead.mockResolvedValueOnce(good);
+
+      const { results, summary } = await processBatch([
+        { line: 2, lead: bad, errors: ["Malformed row 2: expected 4 columns, got 2"] },
+        { line: 3, lead: good },
+      ]);
+
+      expect(mockedApiClient.lookupLead).toHaveBeenCalledTimes(1);
+      expect(results[0]).toMatchObject({ action: "error", line: 2, details: "Malformed row" });
+      expect(results[1]).toMatchObject({ action: "created", line: 3 });
+      expect(summary.errors).toBe(1);
+    });
+
+    it("keeps the original record and stage of errored and skipped rows only", async () => {
+      const raw = (email: string) => ({ Name: "Jane Doe", Email: email });
+      mockedApiClient.lookupLead.mockResolvedValueOnce(null).mockResolvedValueOnce(mockLead());
+      mockedApiClient.createLead.mockResolvedValueOnce(mockLead());
+
+      const { results } = await processBatch([
+        { line: 2, lead: mockLead({ email: "bad" }), raw: raw("bad") },
+        { line: 3, lead: mockLead({ email: "new@example.com" }), raw: raw("new@example.com") },
+        { line: 4, lead: mockLead(), raw: raw("jane@example.com") },
+      ]);
+
+      expect(results.map((r) => [r.action, r.stage, r.raw?.Email])).toEqual([
+        ["error", "validation", "bad"],
+        ["created", undefined, undefined],
+        ["skipped", "unchanged", "jane@example.com"],
+      ]);
+    });
+  });
+
   describe("duplicate email in batch", () => {
     it("processes first occurrence and skips the second duplicate email", async () => {
       const lead1 = mockLead({ name: "Jane Doe", email: "jane@example.com" });
@@ -94,7 +1010,7 @@ describe("leadProcessor", () => {
       mockedApiClient.lookupLead.mockResolvedValueOnce(null);
       mockedApiClient.createLead.mockResolvedValueOnce(lead1);
 
-      const { results } = await processLeads([lead1, lead2]);
+      const { results } = await processBatch([lead1, lead2]);
 
       expect(mockedApiClient.lookupLead).toHaveBeenCalledTimes(1);
       expect(mockedApiClient.createLead).toHaveBeenCalledTimes(1);
@@ -104,6 +1020,19 @@ describe("leadProcessor", () => {
     });
   });
 
+  describe("duplicates across batches", () => {
+    it("skips emails already seen in a shared set", async () => {
+      const processedEmails = new Set<string>(["jane@example.com"]);
+
+      const { results } = await processBatch([mockLead({ email: "Jane@Example.com" })], {
+        processedEmails,
+      });
+
+      expect(mockedApiClient.lookupLead).not.toHaveBeenCalled();
+      expect(results[0].action).toBe("skipped");
+    });
+  });
+
   describe("API error handling", () => {
     it("returns action='error' when lookup throws and continues to next lead", async () => {
       const lead1 = mockLead({ email: "fail@example.com" });
@@ -114,7 +1043,7 @@ describe("leadProcessor", () => {
         .mockResolvedValueOnce(null);
       mockedApiClient.createLead.mockResolvedValueOnce(lead2);
 
-      const { results } = await processLeads([lead1, lead2]);
+      const { results } = await processBatch([lead1, lead2]);
 
       expect(results).toHaveLength(2);
       expect(results[0].action).toBe("error");
@@ -133,7 +1062,7 @@ describe("leadProcessor", () => {
         .mockRejectedValueOnce(new Error("API create failed"))
         .mockResolvedValueOnce(lead2);
 
-      const { results } = await processLeads([lead1, lead2]);
+      const { results } = await processBatch([lead1, lead2]);
 
       expect(results).toHaveLength(2);
       expect(results[0].action).toBe("error");
@@ -161,7 +1090,7 @@ describe("leadProcessor", () => {
       mockedApiClient.createLead.mockResolvedValueOnce(newLead);
       mockedApiClient.updateLead.mockResolvedValueOnce(changedLead);
 
-      const { summary } = await processLeads([
+      const { summary } = await processBatch([
         newLead,
         changedLead,
         unchangedLead,
@@ -178,4 +1107,19 @@ describe("leadProcessor", () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe("combineSummaries", () => {
+    it("adds up every count", () => {
+      const summary = { total: 3, created: 1, updated: 1, skipped: 0, errors: 1 };
+
+      expect(combineSummaries([summary, summary])).toEqual<ProcessSummary>({
+        total: 6,
+        created: 2,
+        updated: 2,
+        skipped: 0,
+        errors: 2,
+      });
+      expect(combineSummaries([])).toEqual({ total: 0, created: 0, updated: 0, skipped: 0, errors: 0 });
+    });
+  });
+});
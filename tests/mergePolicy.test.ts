@@ -0,0 +1,98 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { applyMergePolicies, loadMergePolicies } from "../src/mergePolicy";
+import { FieldChange } from "../src/leadDiff";
+
+describe("applyMergePolicies", () => {
+  const changes: FieldChange[] = [
+    { field: "company", before: "Acme (corrected)", after: "Acme" },
+    { field: "jobTitle", before: "", after: "CTO" },
+    { field: "phone", after: "+1 555 0100" },
+    { field: "tags", before: ["vip"], after: [] },
+  ];
+
+  it("overwrites everything by default", () => {
+    expect(applyMergePolicies(changes)).toEqual(changes);
+  });
+
+  it("fills only blank remote values", () => {
+    expect(applyMergePolicies(changes, { default: "fill-blank" }).map((c) => c.field)).toEqual([
+      "jobTitle",
+      "phone",
+    ]);
+  });
+
+  it("never touches protected fields", () => {
+    const allowed = applyMergePolicies(changes, { fields: { company: "never" } });
+    expect(allowed.map((c) => c.field)).toEqual(["jobTitle", "phone", "tags"]);
+  });
+
+  it("prefers non-empty incoming values", () => {
+    const allowed = applyMergePolicies(changes, { default: "prefer-non-empty" });
+    expect(allowed.map((c) => c.field)).toEqual(["company", "jobTitle", "phone"]);
+  });
+});
+
+describe("loadMergePolicies", () => {
+  let tmpDir: string;
+
+  const writePolicies = (content: unknown): string => {
+    const filePath = path.join(tmpDir, "policies.json");
+    fs.writeFileSync(filePath, JSON.stringify(content));
+    return filePath;
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "merge-policy-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("reads the default and per-field policies", () => {
+    const filePath = writePolicies({ default: "fill-blank", fields: { company: "never" } });
+
+    expect(loadMergePolicies(filePath)).toEqual({
+      default: "fill-blank",
+      fields: { company: "never" },
+    });
+  });
+
+  it("rejects unknown policies", () => {
+    expect(() => loadMergePolicies(writePolicies({ fields: { company: "sometimes" } }))).toThrow(
+      /field "company" has unknown policy "sometimes"/
+    );
+  });
+
+  it("rejects fields that are not an object of policies", () => {
+    expect(() => loadMergePolicies(writePolicies({ fields: ["company"] }))).toThrow(
+      /"fields" must map fields to policies/
+    );
+  });
+
+  it("rejects a top level that is not an object", () => {
+    expect(() => loadMergePolicies(writePolicies(["company"]))).toThrow(/expected a JSON object/);
+  });
+
+  it("rejects fields that are neither lead nor schema fields", () => {
+    expect(() => loadMergePolicies(writePolicies({ fields: { compnay: "never" } }))).toThrow(
+      /unknown field "compnay"; expected one of name, email, company, source, phone/
+    );
+  });
+
+  it("accepts custom fields from the given schema", () => {
+    const schema = { fields: [{ name: "region", type: "string" as const }] };
+
+    expect(loadMergePolicies(writePolicies({ fields: { region: "never" } }), schema)).toEqual({
+      fields: { region: "never" },
+    });
+  });
+
+  it("reports missing files", () => {
+    expect(() => loadMergePolicies(path.join(tmpDir, "nope.json"))).toThrow(
+      /Merge policy file not found/
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import { formatPlan } from "../src/planReport";
+import { LeadResult } from "../src/leadProcessor";
+import { Lead } from "../src/validator";
+
+function mockLead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    name: "Jane Doe",
+    email: "jane@example.com",
+    company: "Acme Corp",
+    source: "LinkedIn",
+    ...overrides,
+  };
+}
+
+describe("formatPlan", () => {
+  it("lists every row with its planned action", () => {
+    const results: LeadResult[] = [
+      {
+        email: "jane@example.com",
+        line: 2,
+        action: "created",
+        details: "Would create",
+        lead: mockLead(),
+      },
+      {
+        email: "bob@startup.com",
+        line: 3,
+        action: "updated",
+        details: "Would update",
+        changes: [
+          { field: "company", before: "Startup Co", after: "Startup Labs" },
+          { field: "jobTitle", after: "CTO" },
+        ],
+        lead: mockLead(),
+      },
+      {
+        email: "alice@example.com",
+        line: 4,
+        action: "skipped",
+        details: "Lead data identical",
+        lead: mockLead(),
+      },
+      {
+        email: "bademail",
+        line: 5,
+        action: "error",
+        details: "Validation failed",
+        error: "Invalid email format",
+        lead: mockLead(),
+      },
+    ];
+
+    expect(formatPlan(results).split("\n")).toEqual([
+      "ROW  ACTION  EMAIL              DETAILS",
+      "2    create  jane@example.com",
+      '3    update  bob@startup.com    company: "Startup Co" -> "Startup Labs"; jobTitle: (none) -> "CTO"',
+      "4    skip    alice@example.com  Lead data identical",
+      "5    reject  bademail           Invalid email format",
+    ]);
+  });
+
+  it("numbers rows by position when lines are unknown", () => {
+    const plan = formatPlan([{ email: "a@b.co", action: "created", lead: mockLead() }]);
+    expect(plan.split("\n")[1]).toBe("1    create  a@b.co");
+  });
+});
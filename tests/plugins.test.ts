@@ -0,0 +1,162 @@
+import { LeadPlugin, loadPlugin, runLeadHook, runObserverHook } from "../src/plugins";
+import { PluginError } from "../src/errors";
+import { Lead } from "../src/validator";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+const lead: Lead = {
+  name: "Jane Doe",
+  email: "jane@example.com",
+  company: "Acme Corp",
+  source: "LinkedIn",
+};
+
+const context = { row: 2, dryRun: false };
+
+describe("runLeadHook", () => {
+  it("hands each plugin the lead the previous one returned", async () => {
+    const plugins: LeadPlugin[] = [
+      { name: "a", transform: (l) => ({ ...l, company: "Acme" }) },
+      { name: "b", beforeWrite: () => ({ veto: "never called" }) },
+      { name: "c", transform: (l) => ({ ...l, name: `${l.name} (${l.company})` }) },
+    ];
+
+    expect(await runLeadHook(plugins, "transform", lead, context)).toEqual({
+      lead: { ...lead, company: "Acme", name: "Jane Doe (Acme)" },
+    });
+  });
+
+  it("stops at the first veto", async () => {
+    const later = jest.fn();
+    const plugins: LeadPlugin[] = [
+      { name: "a", beforeValidate: () => undefined },
+      { name: "b", beforeValidate: async () => ({ veto: "Test lead" }) },
+      { name: "c", beforeValidate: later },
+    ];
+
+    expect(await runLeadHook(plugins, "beforeValidate", lead, context)).toEqual({
+      lead,
+      veto: "Test lead",
+      plugin: "b",
+    });
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  it("rejects a returned object that lacks a core field", async () => {
+    const plugins: LeadPlugin[] = [
+      { name: "trimmer", transform: ({ name, email }) => ({ name, email }) as Lead },
+    ];
+
+    await expect(runLeadHook(plugins, "transform", lead, context)).rejects.toThrow(
+      "Plugin trimmer failed in transform: returned neither a lead"
+    );
+  });
+
+  it("rejects a beforeWrite hook that changes the email", async () => {
+    const plugins: LeadPlugin[] = [
+      { name: "swapper", beforeWrite: (l) => ({ ...l, email: "other@example.com" }) },
+    ];
+
+    await expect(
+      runLeadHook(plugins, "beforeWrite", lead, { ...context, existing: null })
+    ).rejects.toThrow("Plugin swapper failed in beforeWrite: changed the email");
+  });
+
+  it("wraps hook failures in a PluginError", async () => {
+    const plugins: LeadPlugin[] = [
+      {
+        name: "enricher",
+        transform: () => {
+          throw new Error("Timeout");
+        },
+      },
+    ];
+
+    const error = await runLeadHook(plugins, "transform", lead, context).catch((e) => e);
+
+    expect(error).toBeInstanceOf(PluginError);
+    expect(error).toMatchObject({
+      plugin: "enricher",
+      hook: "transform",
+      message: "Plugin enricher failed in transform: Timeout",
+    });
+  });
+});
+
+describe("runObserverHook", () => {
+  it("calls every plugin with the value, keeping the plugin as this", async () => {
+    const plugin = {
+      name: "counter",
+      count: 0,
+      afterLead(this: { count: number }) {
+        this.count++;
+      },
+    };
+
+    await runObserverHook([plugin, plugin], "afterLead", {
+      email: lead.email,
+      action: "created",
+      lead,
+    });
+
+    expect(plugin.count).toBe(2);
+  });
+});
+
+describe("loadPlugin", () => {
+  let tmpDir: string;
+
+  function writeTemp(name: string, content: string): string {
+    const filePath = path.join(tmpDir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "plugins-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("loads a CommonJS module of hooks", async () => {
+    const file = writeTemp(
+      "tagger.js",
+      "module.exports = { name: 'tagger', transform: (lead) => ({ ...lead, source: 'Web' }) };"
+    );
+
+    const plugin = loadPlugin(file);
+
+    expect(plugin.name).toBe("tagger");
+    expect(await plugin.transform?.(lead, context)).toEqual({ ...lead, source: "Web" });
+  });
+
+  it("reads a default export and names the plugin after its file", () => {
+    const file = writeTemp(
+      "internal-filter.js",
+      "exports.default = { beforeValidate: () => undefined };"
+    );
+
+    expect(loadPlugin(file).name).toBe("internal-filter");
+  });
+
+  it("throws a descriptive error when the plugin is not found", () => {
+    expect(() => loadPlugin(path.join(tmpDir, "missing.js"))).toThrow(/Plugin not found/);
+  });
+
+  it("throws a descriptive error when the module fails to load", () => {
+    const file = writeTemp("broken.js", "module.exports = {");
+
+    expect(() => loadPlugin(file)).toThrow(/Invalid plugin .*broken\.js/);
+  });
+
+  it("rejects unknown hooks and hooks that are not functions", () => {
+    const typo = writeTemp("typo.js", "module.exports = { beforeWrit: () => undefined };");
+    const notFunction = writeTemp("value.js", "module.exports = { afterRun: true };");
+
+    expect(() => loadPlugin(typo)).toThrow(/unknown hook "beforeWrit"/);
+    expect(() => loadPlugin(notFunction)).toThrow(/"afterRun" must be a function/);
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  ProgressState,
+  createProgressReporter,
+  formatDuration,
+  formatProgress,
+} from "../src/progress";
+import { LeadResult } from "../src/leadProcessor";
+import { Writable } from "stream";
+
+function result(action: LeadResult["action"], extra: Partial<LeadResult> = {}): LeadResult {
+  return {
+    email: "jane@example.com",
+    action,
+    lead: { name: "Jane", email: "jane@example.com", company: "Acme", source: "Web" },
+    ...extra,
+  };
+}
+
+function state(overrides: Partial<ProgressState> = {}): ProgressState {
+  return {
+    label: "leads.csv",
+    total: 100,
+    done: 0,
+    resumed: 0,
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    errors: 0,
+    retries: 0,
+    startedAt: 0,
+    ...overrides,
+  };
+}
+
+/** A stream that keeps what was written to it */
+function captureStream(isTTY: boolean) {
+  const chunks: string[] = [];
+  const stream = new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(chunk.toString());
+      callback();
+    },
+  }) as unknown as NodeJS.WriteStream;
+  stream.isTTY = isTTY;
+  return { stream, output: () => chunks.join("") };
+}
+
+describe("formatDuration", () => {
+  it("formats seconds, minutes and hours", () => {
+    expect(formatDuration(4_400)).toBe("4s");
+    expect(formatDuration(75_000)).toBe("1m15s");
+    expect(formatDuration(3_720_000)).toBe("1h02m");
+  });
+});
+
+describe("formatProgress", () => {
+  it("shows rows done, throughput, ETA and counts", () => {
+    const lines = formatProgress(
+      state({ done: 25, created: 20, updated: 3, skipped: 1, errors: 1 }),
+      5_000
+    );
+
+    expect(lines[0]).toBe("leads.csv: 25/100 rows (25%)  5.0 rows/s  ETA 15s  elapsed 5s");
+    expect(lines[1]).toBe("created 20  updated 3  skipped 1  errors 1");
+  });
+
+  it("leaves resumed rows out of the throughput", () => {
+    const [line] = formatProgress(state({ done: 60, resumed: 50 }), 5_000);
+
+    expect(line).toContain("2.0 rows/s  ETA 20s");
+  });
+
+  it("has no ETA without a total", () => {
+    const [line] = formatProgress(state({ total: undefined, done: 10 }), 1_000);
+
+    expect(line).toBe("leads.csv: 10 rows  10.0 rows/s  ETA --  elapsed 1s");
+  });
+
+  it("shows a retry while its wait lasts, then only the count and rate", () => {
+    const backoff = {
+      event: { attempt: 1, maxRetries: 3, status: 429, delayMs: 2_000 },
+      until: 3_000,
+    };
+
+    expect(formatProgress(state({ retries: 1, backoff }), 1_500, 4)[2]).toBe(
+      "retry 1/3 after HTTP 429, 1.5s left  1 retry  4.0 req/s"
+    );
+    expect(formatProgress(state({ retries: 1, backoff }), 3_000)[2]).toBe("1 retry");
+  });
+
+  it("names the network error of a retry without a status", () => {
+    const backoff = {
+      event: { attempt: 2, maxRetries: 3, code: "ETIMEDOUT", delayMs: 1_000 },
+      until: 1_000,
+    };
+
+    expect(formatProgress(state({ retries: 2, backoff }), 0)[2]).toBe(
+      "retry 2/3 after ETIMEDOUT, 1.0s left  2 retries"
+    );
+  });
+});
+
+describe("createProgressReporter", () => {
+  it("prints plain progress lines when the stream is not a TTY", () => {
+    const { stream, output } = captureStream(false);
+    let now = 0;
+    const progress = createProgressReporter({ stream, now: () => now });
+
+    progress.start("leads.csv", 2);
+    progress.record(result("created"));
+    progress.record(result("error"));
+    now = 2_000;
+    progress.finish();
+
+    expect(output()).toBe(
+      "Progress leads.csv: 2/2 rows (100%)  1.0 rows/s  ETA 0s  elapsed 2s | " +
+        "created 1  updated 0  skipped 0  errors 1 | 0 retries\n"
+    );
+  });
+
+  it("recounts a requeued row instead of adding it", () => {
+    const { stream, output } = captureStream(false);
+    const progress = createProgressReporter({ stream, now: () => 0 });
+
+    progress.start("leads.csv", 1);
+    progress.record(result("error", { transient: true }));
+    progress.record(result("created", { requeued: true }));
+    progress.finish();
+
+    expect(output()).toContain("1/1 rows");
+    expect(output()).toContain("created 1  updated 0  skipped 0  errors 0");
+  });
+
+  it("counts retries and shows the current backoff", () => {
+    const { stream, output } = captureStream(false);
+    const progress = createProgressReporter({ stream, now: () => 0, rate: () => 2.5 });
+
+    progress.start("leads.csv");
+    progress.retry({ attempt: 1, maxRetries: 3, status: 503, delayMs: 1_000 });
+    progress.finish();
+
+    expect(output()).toContain("| retry 1/3 after HTTP 503, 1.0s left  1 retry  2.5 req/s");
+  });
+
+  it("redraws a live view below other output on a TTY", () => {
+    const { stream, output } = captureStream(true);
+    const progress = createProgressReporter({ stream, now: () => 0 });
+
+    progress.start("leads.csv", 1);
+    stream.write("log line\n");
+    progress.record(result("updated"));
+    progress.finish();
+    stream.write("after\n");
+
+    const view = (done: number, updated: number) =>
+      `leads.csv: ${done}/1 rows (${done * 100}%)  0.0 rows/s  ETA --  elapsed 0s\n` +
+      `created 0  updated ${updated}  skipped 0  errors 0\n` +
+      "0 retries\n";
+    const clear = "\x1b[3F\x1b[J";
+    expect(output()).toBe(
+      view(0, 0) + clear + "log line\n" + view(0, 0) + clear + view(1, 1) + "after\n"
+    );
+  });
+});
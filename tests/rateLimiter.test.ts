@@ -0,0 +1,82 @@
+import { createRateLimiter } from "../src/rateLimiter";
+
+/**
+ * A fake clock whose sleep advances time instantly and records each wait
+ */
+function fakeClock() {
+  const clock = {
+    time: 0,
+    waits: [] as number[],
+    now: () => clock.time,
+    sleep: async (ms: number) => {
+      clock.waits.push(ms);
+      clock.time += ms;
+    },
+  };
+  return clock;
+}
+
+describe("createRateLimiter", () => {
+  it("lets a burst through, then spaces requests at the rate", async () => {
+    const clock = fakeClock();
+    const limiter = createRateLimiter({ requestsPerSecond: 2, ...clock });
+
+    for (let i = 0; i < 4; i++) await limiter.acquire();
+
+    expect(clock.waits).toEqual([500, 500]);
+    expect(clock.time).toBe(1000);
+  });
+
+  it("backs off on 429s down to the floor and pauses for the retry hint", async () => {
+    const clock = fakeClock();
+    const limiter = createRateLimiter({ requestsPerSecond: 8, ...clock });
+
+    limiter.onThrottled(2000);
+    expect(limiter.rate).toBe(4);
+    limiter.onThrottled();
+    limiter.onThrottled();
+    limiter.onThrottled();
+    expect(limiter.rate).toBe(0.8);
+
+    await limiter.acquire();
+    expect(clock.time).toBeGreaterThanOrEqual(2000);
+  });
+
+  it("recovers towards the target after successes", () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 10, recoveryStep: 0.5, ...fakeClock() });
+
+    limiter.onThrottled();
+    expect(limiter.rate).toBe(5);
+    limiter.onSuccess();
+    expect(limiter.rate).toBe(10);
+    limiter.onSuccess();
+    expect(limiter.rate).toBe(10);
+  });
+
+  it("only honours pauses when unlimited", async () => {
+    const clock = fakeClock();
+    const limiter = createRateLimiter({ requestsPerSecond: Infinity, ...clock });
+
+    for (let i = 0; i < 100; i++) await limiter.acquire();
+    expect(clock.waits).toEqual([]);
+
+    limiter.onThrottled(300);
+    await limiter.acquire();
+    expect(clock.waits).toEqual([300]);
+  });
+
+  it("serves concurrent callers in order", async () => {
+    const clock = fakeClock();
+    const limiter = createRateLimiter({ requestsPerSecond: 1, ...clock });
+    const order: number[] = [];
+
+    await Promise.all([0, 1, 2].map((i) => limiter.acquire().then(() => order.push(i))));
+
+    expect(order).toEqual([0, 1, 2]);
+    expect(clock.time).toBe(2000);
+  });
+
+  it("rejects non-positive rates", () => {
+    expect(() => createRateLimiter({ requestsPerSecond: 0 })).toThrow(/Invalid rate limit 0/);
+  });
+});
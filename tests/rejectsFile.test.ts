@@ -0,0 +1,117 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { formatRejects, writeRejects } from "../src/rejectsFile";
+import { LeadResult } from "../src/leadProcessor";
+import { streamCSVRows } from "../src/csvParser";
+
+function result(overrides: Partial<LeadResult> = {}): LeadResult {
+  return {
+    email: "jane@example.com",
+    action: "error",
+    lead: { name: "Jane Doe", email: "jane@example.com", company: "Acme Corp", source: "LinkedIn" },
+    ...overrides,
+  };
+}
+
+describe("formatRejects", () => {
+  it("writes errored and skipped rows in their original columns", () => {
+    const csv = formatRejects([
+      result({
+        line: 2,
+        stage: "validation",
+        errors: ["Invalid email format", "Name is required"],
+        raw: { "Full Name": "", "Work Email": "jane@", Notes: "call back" },
+      }),
+      result({ action: "created", line: 3 }),
+      result({
+        action: "skipped",
+        line: 4,
+        stage: "unchanged",
+        details: "Lead data identical",
+        raw: { "Full Name": "Bob Smith", "Work Email": "bob@startup.com", Notes: "" },
+      }),
+    ]);
+
+    expect(csv).toBe(
+      [
+        "Full Name,Work Email,Notes,error_stage,error_messages,line",
+        ",jane@,call back,validation,Invalid email format; Name is required,2",
+        "Bob Smith,bob@startup.com,,unchanged,Lead data identical,4",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("quotes values with delimiters, quotes and line breaks", () => {
+    const csv = formatRejects([
+      result({ raw: { Company: 'Acme, "The" Corp', Notes: "two\nlines" }, errors: ["x"] }),
+    ]);
+
+    expect(csv.split("\n")[1]).toBe('"Acme, ""The"" Corp","two');
+  });
+
+  it("merges the columns of inputs with different headers", () => {
+    const csv = formatRejects([
+      result({ raw: { Name: "A", Email: "a@x.com" }, errors: ["x"] }),
+      result({ raw: { Email: "b@x.com", Phone: "555" }, errors: ["y"] }),
+    ]);
+
+    expect(csv.split("\n").slice(0, 3)).toEqual([
+      "Name,Email,Phone,error_stage,error_messages,line",
+      "A,a@x.com,,,x,",
+      ",b@x.com,555,,y,",
+    ]);
+  });
+
+  it("falls back to the lead's fields for rows without a record", () => {
+    const csv = formatRejects([
+      result({ lead: { ...result().lead, custom: { tags: ["a", "b"] } }, errors: ["x"] }),
+    ]);
+
+    expect(csv.split("\n")[0]).toBe(
+      "name,email,company,source,tags,error_stage,error_messages,line"
+    );
+    expect(csv.split("\n")[1]).toBe("Jane Doe,jane@example.com,Acme Corp,LinkedIn,a;b,,x,");
+  });
+});
+
+describe("writeRejects", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rejects-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("writes a file the CSV reader accepts again, replacing old error columns", async () => {
+    const filePath = path.join(tmpDir, "rejects.csv");
+    const count = writeRejects(filePath, [
+      result({
+        line: 7,
+        stage: "lookup",
+        errors: ["Network down"],
+        raw: {
+          Name: "Jane Doe",
+          Email: "jane@example.com",
+          Company: "Acme Corp",
+          Source: "LinkedIn",
+          error_stage: "validation",
+          error_messages: "old",
+          line: "3",
+        },
+      }),
+    ]);
+
+    const rows = [];
+    for await (const row of streamCSVRows(filePath)) rows.push(row);
+
+    expect(count).toBe(1);
+    expect(rows).toHaveLength(1);
+    expect(rows[0].lead).toEqual(result().lead);
+    expect(rows[0].raw).toMatchObject({ error_stage: "lookup", line: "7" });
+  });
+});
@@ -0,0 +1,175 @@
+import {
+  DEFAULT_RULES,
+  ValidationRule,
+  evaluateRules,
+  getFieldValue,
+  loadRules,
+} from "../src/rules";
+import { Lead } from "../src/validator";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+function validLead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    name: "Jane Doe",
+    email: "jane@example.com",
+    company: "Acme Corp",
+    source: "LinkedIn",
+    ...overrides,
+  };
+}
+
+describe("getFieldValue", () => {
+  it("reads core and custom fields as strings", () => {
+    const lead = validLead({ custom: { tags: ["vip", "partner"], employees: 40 } });
+
+    expect(getFieldValue(lead, "company")).toBe("Acme Corp");
+    expect(getFieldValue(lead, "tags")).toBe("vip,partner");
+    expect(getFieldValue(lead, "employees")).toBe("40");
+    expect(getFieldValue(lead, "phone")).toBe("");
+  });
+});
+
+describe("evaluateRules", () => {
+  it("passes a valid lead with the default rules", () => {
+    expect(evaluateRules(validLead())).toEqual([]);
+  });
+
+  it("reports the rule id, field and severity of each failure", () => {
+    expect(evaluateRules(validLead({ source: "TikTok" }))).toEqual([
+      { ruleId: "source.allowed", field: "source", severity: "error", message: "Invalid source" },
+    ]);
+  });
+
+  it("reports only the first failing error rule per field", () => {
+    const issues = evaluateRules(validLead({ email: "" }));
+
+    expect(issues.map((i) => i.ruleId)).toEqual(["email.required"]);
+  });
+
+  it("applies min/max length and case-insensitive enums", () => {
+    const rules: ValidationRule[] = [
+      { id: "name.min", field: "name", type: "minLength", length: 3 },
+      { id: "company.max", field: "company", type: "maxLength", length: 5 },
+      { id: "country.allowed", field: "country", type: "enum", values: ["US", "DE"] },
+    ];
+
+    const issues = evaluateRules(validLead({ name: "Al", custom: { country: "de" } }), rules);
+
+    expect(issues.map((i) => i.message)).toEqual([
+      "Name must be at least 3 characters",
+      "Company must be at most 5 characters",
+    ]);
+  });
+
+  it("only applies conditional rules when the condition holds", () => {
+    const rules: ValidationRule[] = [
+      {
+        id: "jobTitle.conference",
+        field: "jobTitle",
+        type: "required",
+        severity: "warning",
+        when: { field: "source", in: ["Conference", "Webinar"] },
+      },
+    ];
+
+    expect(evaluateRules(validLead(), rules)).toEqual([]);
+    expect(evaluateRules(validLead({ source: "Webinar" }), rules)).toEqual([
+      {
+        ruleId: "jobTitle.conference",
+        field: "jobTitle",
+        severity: "warning",
+        message: "JobTitle is required",
+      },
+    ]);
+  });
+
+  it("suggests the closest allowed value for a failed enum rule", () => {
+    expect(evaluateRules(validLead({ source: "Linkdin" }))).toEqual([
+      {
+        ruleId: "source.allowed",
+        field: "source",
+        severity: "error",
+        message: 'Invalid source: "Linkdin" (did you mean "LinkedIn"?)',
+        suggestion: "LinkedIn",
+      },
+    ]);
+  });
+
+  it("skips disabled rules", () => {
+    const rules = DEFAULT_RULES.map((rule) =>
+      rule.id === "source.allowed" ? { ...rule, enabled: false } : rule
+    );
+
+    expect(evaluateRules(validLead({ source: "TikTok" }), rules)).toEqual([]);
+  });
+});
+
+describe("loadRules", () => {
+  let tmpDir: string;
+
+  function writeRules(content: unknown): string {
+    const filePath = path.join(tmpDir, "rules.json");
+    fs.writeFileSync(filePath, JSON.stringify(content), "utf-8");
+    return filePath;
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rules-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("overrides default rules by id and appends new ones", () => {
+    const { rules } = loadRules(
+      writeRules({
+        rules: [
+          { id: "source.allowed", values: ["LinkedIn", "Podcast"] },
+          { id: "phone.required", field: "phone", type: "required", severity: "warning" },
+        ],
+      })
+    );
+
+    expect(rules).toHaveLength(DEFAULT_RULES.length + 1);
+    expect(evaluateRules(validLead({ source: "Podcast" }), rules)).toEqual([
+      expect.objectContaining({ ruleId: "phone.required", severity: "warning" }),
+    ]);
+  });
+
+  it("reads source aliases", () => {
+    const config = loadRules(writeRules({ sourceAliases: { ig: "Instagram" } }));
+
+    expect(config.rules).toEqual(DEFAULT_RULES);
+    expect(config.sourceAliases).toEqual({ ig: "Instagram" });
+    expect(config.companyAliases).toEqual({});
+  });
+
+  it("reads company aliases", () => {
+    const config = loadRules(writeRules({ companyAliases: { "globex intl": "Globex" } }));
+
+    expect(config.companyAliases).toEqual({ "globex intl": "Globex" });
+    expect(() => loadRules(writeRules({ companyAliases: ["Globex"] }))).toThrow(/companyAliases/);
+  });
+
+  it("rejects source aliases that are not strings", () => {
+    expect(() => loadRules(writeRules({ sourceAliases: { ig: 1 } }))).toThrow(/sourceAliases/);
+  });
+
+  it("rejects rules with unknown types or bad patterns", () => {
+    expect(() => loadRules(writeRules({ rules: [{ id: "x", field: "name", type: "fuzzy" }] }))).toThrow(
+      /unknown type "fuzzy"/
+    );
+    expect(() =>
+      loadRules(writeRules({ rules: [{ id: "x", field: "name", type: "pattern", pattern: "(" }] }))
+    ).toThrow(/invalid pattern/);
+  });
+
+  it("requires an id on every rule", () => {
+    expect(() => loadRules(writeRules({ rules: [{ field: "name", type: "required" }] }))).toThrow(
+      /needs an id/
+    );
+  });
+});
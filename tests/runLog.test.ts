@@ -0,0 +1,118 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  RunLogEntry,
+  createRunId,
+  openRunLog,
+  pendingFailures,
+  readRunLog,
+  runLogPath,
+} from "../src/runLog";
+
+describe("runLog", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "runlog-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("createRunId", () => {
+    it("starts with the UTC timestamp and is unique", () => {
+      const date = new Date("2024-01-02T03:04:05.678Z");
+
+      expect(createRunId(date)).toMatch(/^20240102T030405Z-[0-9a-f]{6}$/);
+      expect(createRunId(date)).not.toBe(createRunId(date));
+    });
+  });
+
+  it("reads back the entries of a run in order", () => {
+    const log = openRunLog("run-1", tmpDir);
+    log.record({ kind: "created", email: "new@example.com" });
+    log.record({
+      kind: "updated",
+      email: "jane@example.com",
+      before: { name: "Jane Doe", email: "jane@example.com", company: "Old", source: "LinkedIn" },
+      changes: [{ field: "company", before: "Old", after: "New" }],
+    });
+    log.close();
+
+    expect(log.size).toBe(2);
+    expect(readRunLog("run-1", tmpDir).map((e) => [e.kind, e.email])).toEqual([
+      ["created", "new@example.com"],
+      ["updated", "jane@example.com"],
+    ]);
+  });
+
+  it("refuses to reuse a run ID", () => {
+    openRunLog("run-1", tmpDir).close();
+
+    expect(() => openRunLog("run-1", tmpDir)).toThrow();
+  });
+
+  it("appends to the log of an earlier run", () => {
+    openRunLog("run-1", tmpDir).close();
+    const log = openRunLog("run-1", tmpDir, { append: true });
+    log.record({ kind: "resolved", email: "jane@example.com", input: "leads.csv", line: 2 });
+    log.close();
+
+    expect(readRunLog("run-1", tmpDir)).toEqual([
+      { kind: "resolved", email: "jane@example.com", input: "leads.csv", line: 2 },
+    ]);
+  });
+
+  it("ignores a torn last line but rejects corruption elsewhere", () => {
+    const log = openRunLog("run-1", tmpDir);
+    log.record({ kind: "created", email: "new@example.com" });
+    log.close();
+    fs.appendFileSync(runLogPath("run-1", tmpDir), '{"kind":"crea');
+
+    expect(readRunLog("run-1", tmpDir)).toHaveLength(1);
+
+    fs.appendFileSync(runLogPath("run-1", tmpDir), '\n{"kind":"created","email":"b@x.com"}\n');
+    expect(() => readRunLog("run-1", tmpDir)).toThrow(/Invalid run log .*line 2/);
+  });
+
+  it("throws a descriptive error for an unknown run", () => {
+    expect(() => readRunLog("missing", tmpDir)).toThrow(/Run log not found for run missing/);
+    expect(() => readRunLog("../etc/passwd", tmpDir)).toThrow('Invalid run ID "../etc/passwd"');
+  });
+
+  it("deletes the log on discard", () => {
+    const log = openRunLog("run-1", tmpDir);
+    log.discard();
+
+    expect(fs.existsSync(runLogPath("run-1", tmpDir))).toBe(false);
+  });
+});
+
+describe("pendingFailures", () => {
+  const lead = { name: "Jane Doe", email: "jane@example.com", company: "Acme", source: "LinkedIn" };
+  const failed = (input: string, line?: number): RunLogEntry => ({
+    kind: "failed",
+    email: lead.email,
+    input,
+    line,
+    lead,
+    error: "Max retries exhausted",
+  });
+
+  it("leaves out the failures retry-failed resolved", () => {
+    const entries: RunLogEntry[] = [
+      { kind: "created", email: "new@example.com" },
+      failed("a.csv", 2),
+      failed("b.csv", 2),
+      failed("stdin"),
+      { kind: "resolved", email: lead.email, input: "a.csv", line: 2 },
+    ];
+
+    expect(pendingFailures(entries)).toEqual([failed("b.csv", 2), failed("stdin")]);
+    expect(
+      pendingFailures([...entries, { kind: "resolved", email: lead.email, input: "stdin" }])
+    ).toEqual([failed("b.csv", 2)]);
+  });
+});
@@ -0,0 +1,151 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  RunReport,
+  formatCsvReport,
+  formatHtmlReport,
+  formatJUnitReport,
+  parseReportTarget,
+  writeReports,
+} from "../src/runReport";
+import { LeadResult } from "../src/leadProcessor";
+
+function result(overrides: Partial<LeadResult> = {}): LeadResult {
+  return {
+    email: "jane@example.com",
+    action: "created",
+    details: "Lead created successfully",
+    lead: { name: "Jane Doe", email: "jane@example.com", company: "Acme Corp", source: "LinkedIn" },
+    ...overrides,
+  };
+}
+
+const report: RunReport = {
+  runId: "20240101T000000Z-abcdef",
+  summary: { total: 3, created: 1, updated: 1, skipped: 0, errors: 1 },
+  inputs: [
+    {
+      input: "leads.csv",
+      summary: { total: 3, created: 1, updated: 1, skipped: 0, errors: 1 },
+      results: [
+        result({ line: 2 }),
+        result({
+          line: 3,
+          email: "bob@startup.com",
+          action: "updated",
+          details: "Lead updated successfully",
+          changes: [{ field: "company", before: "Startup Co", after: "Startup Inc" }],
+        }),
+        result({
+          line: 4,
+          email: "<bad>",
+          action: "error",
+          stage: "validation",
+          details: "Validation failed",
+          errors: ["Invalid email format", "Company & name are required"],
+        }),
+      ],
+    },
+  ],
+};
+
+describe("parseReportTarget", () => {
+  it("splits the format from the path at the first colon", () => {
+    expect(parseReportTarget("junit:out/report.xml")).toEqual({
+      format: "junit",
+      path: "out/report.xml",
+    });
+    expect(parseReportTarget("json:C:/reports/run.json").path).toBe("C:/reports/run.json");
+  });
+
+  it.each(["report.json", "xml:report.xml", "json:"])("rejects %s", (spec) => {
+    expect(() => parseReportTarget(spec)).toThrow(
+      `Invalid --report "${spec}": expected <format>:<path> with format json, csv, junit, html`
+    );
+  });
+});
+
+describe("formatCsvReport", () => {
+  it("writes one row per lead", () => {
+    expect(formatCsvReport(report).split("\n")).toEqual([
+      "input,row,email,action,stage,details,errors,warnings",
+      "leads.csv,2,jane@example.com,created,,Lead created successfully,,",
+      'leads.csv,3,bob@startup.com,updated,,"company: ""Startup Co"" -> ""Startup Inc""",,',
+      "leads.csv,4,<bad>,error,validation,Validation failed," +
+        "Invalid email format; Company & name are required,",
+      "",
+    ]);
+  });
+});
+
+describe("formatJUnitReport", () => {
+  it("turns errors into failures with escaped messages", () => {
+    const xml = formatJUnitReport(report);
+
+    expect(xml).toContain('<testsuites name="lead-ingest" tests="3" failures="1" skipped="0">');
+    expect(xml).toContain('<testsuite name="leads.csv" tests="3" failures="1" skipped="0">');
+    expect(xml).toContain('<testcase classname="leads.csv" name="row 2: jane@example.com"/>');
+    expect(xml).toContain(
+      '<testcase classname="leads.csv" name="row 4: &#60;bad&#62;">\n' +
+        '      <failure message="Validation failed" type="validation">' +
+        "Invalid email format; Company &#38; name are required</failure>"
+    );
+  });
+
+  it("reports skipped rows as skipped tests", () => {
+    const xml = formatJUnitReport({
+      summary: { total: 1, created: 0, updated: 0, skipped: 1, errors: 0 },
+      inputs: [
+        {
+          input: "stdin",
+          summary: { total: 1, created: 0, updated: 0, skipped: 1, errors: 0 },
+          results: [result({ action: "skipped", details: "Lead data identical" })],
+        },
+      ],
+    });
+
+    expect(xml).toContain('<skipped message="Lead data identical"/>');
+  });
+});
+
+describe("formatHtmlReport", () => {
+  it("renders counts and an escaped, filterable row per lead", () => {
+    const html = formatHtmlReport(report);
+
+    expect(html).toContain("<title>Lead ingestion report – run 20240101T000000Z-abcdef</title>");
+    expect(html).toContain("<div><b>1</b>errors</div>");
+    expect(html).toContain('<tr class="error" data-action="error">');
+    expect(html).toContain("<td>&#60;bad&#62;</td>");
+    expect(html).not.toContain("<bad>");
+    expect(html).toContain('<select id="action">');
+  });
+});
+
+describe("writeReports", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "report-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("writes every requested format, creating directories", () => {
+    const jsonPath = path.join(tmpDir, "out", "report.json");
+    const xmlPath = path.join(tmpDir, "report.xml");
+
+    writeReports(
+      [
+        { format: "json", path: jsonPath },
+        { format: "junit", path: xmlPath },
+      ],
+      report
+    );
+
+    expect(JSON.parse(fs.readFileSync(jsonPath, "utf-8"))).toEqual(report);
+    expect(fs.readFileSync(xmlPath, "utf-8")).toMatch(/^<\?xml/);
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  DEFAULT_SCHEMA,
+  FieldDefinition,
+  assignField,
+  coerceFieldValue,
+  fieldValuesEqual,
+  loadSchema,
+  validateCustomFields,
+} from "../src/schema";
+import { Lead } from "../src/validator";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+function baseLead(custom?: Lead["custom"]): Lead {
+  return {
+    name: "Jane Doe",
+    email: "jane@example.com",
+    company: "Acme Corp",
+    source: "LinkedIn",
+    ...(custom && { custom }),
+  };
+}
+
+const field = (type: FieldDefinition["type"], extra: Partial<FieldDefinition> = {}): FieldDefinition => ({
+  name: "value",
+  type,
+  ...extra,
+});
+
+describe("coerceFieldValue", () => {
+  it("converts numbers, booleans and lists", () => {
+    expect(coerceFieldValue(field("number"), " 42 ")).toBe(42);
+    expect(coerceFieldValue(field("boolean"), "Yes")).toBe(true);
+    expect(coerceFieldValue(field("boolean"), "0")).toBe(false);
+    expect(coerceFieldValue(field("list"), "vip; partner |  ")).toEqual(["vip", "partner"]);
+  });
+
+  it("keeps unconvertible values as strings", () => {
+    expect(coerceFieldValue(field("number"), "lots")).toBe("lots");
+    expect(coerceFieldValue(field("boolean"), "maybe")).toBe("maybe");
+  });
+
+  it("collapses whitespace in string values", () => {
+    expect(coerceFieldValue(field("string"), "  Head   of Sales ")).toBe("Head of Sales");
+  });
+});
+
+describe("assignField", () => {
+  it("sets core fields and coerced custom fields", () => {
+    const lead = baseLead();
+
+    assignField(lead, "company", "  Globex ");
+    assignField(lead, "tags", "vip,partner");
+    assignField(lead, "phone", "");
+
+    expect(lead.company).toBe("Globex");
+    expect(lead.custom).toEqual({ tags: ["vip", "partner"] });
+  });
+
+  it("ignores fields the schema does not define", () => {
+    const lead = baseLead();
+
+    assignField(lead, "favouriteColour", "blue");
+
+    expect(lead.custom).toBeUndefined();
+  });
+});
+
+describe("validateCustomFields", () => {
+  it("accepts well-typed values", () => {
+    expect(
+      validateCustomFields(baseLead({ phone: "+1 (555) 010-9999", jobTitle: "CTO", tags: ["vip"] }))
+    ).toEqual([]);
+  });
+
+  it("reports values of the wrong type", () => {
+    expect(validateCustomFields(baseLead({ phone: "call me" }))).toEqual([
+      { ruleId: "phone.type", field: "phone", severity: "error", message: "Invalid phone: expected phone" },
+    ]);
+  });
+
+  it("reports missing required fields", () => {
+    const schema = { fields: [{ name: "employees", type: "number" as const, required: true }] };
+
+    expect(validateCustomFields(baseLead(), schema).map((i) => i.ruleId)).toEqual([
+      "employees.required",
+    ]);
+    expect(validateCustomFields(baseLead({ employees: "many" }), schema).map((i) => i.message)).toEqual([
+      "Invalid employees: expected number",
+    ]);
+  });
+});
+
+describe("fieldValuesEqual", () => {
+  it("compares lists element-wise", () => {
+    expect(fieldValuesEqual(["a", "b"], ["a", "b"])).toBe(true);
+    expect(fieldValuesEqual(["a", "b"], ["b", "a"])).toBe(false);
+    expect(fieldValuesEqual("a", undefined)).toBe(false);
+  });
+});
+
+describe("loadSchema", () => {
+  let tmpDir: string;
+
+  function writeSchema(content: unknown): string {
+    const filePath = path.join(tmpDir, "schema.json");
+    fs.writeFileSync(filePath, JSON.stringify(content), "utf-8");
+    return filePath;
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "schema-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("overrides defaults by name and appends new fields", () => {
+    const schema = loadSchema(
+      writeSchema({
+        fields: [
+          { name: "phone", type: "string", required: true },
+          { name: "employees", type: "number", aliases: ["Headcount"] },
+        ],
+      })
+    );
+
+    expect(schema.fields).toHaveLength(DEFAULT_SCHEMA.fields.length + 1);
+    expect(schema.fields.find((f) => f.name === "phone")).toMatchObject({ type: "string", required: true });
+    expect(schema.fields.find((f) => f.name === "employees")?.aliases).toEqual(["Headcount"]);
+  });
+
+  it("rejects unknown types and core field names", () => {
+    expect(() => loadSchema(writeSchema({ fields: [{ name: "x", type: "money" }] }))).toThrow(
+      /unknown type "money"/
+    );
+    expect(() => loadSchema(writeSchema({ fields: [{ name: "email", type: "email" }] }))).toThrow(
+      /core field/
+    );
+  });
+
+  it("requires a fields array", () => {
+    expect(() => loadSchema(writeSchema({}))).toThrow(/expected a "fields" array/);
+  });
+});
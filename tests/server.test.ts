@@ -0,0 +1,68 @@
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { createApiClient } from "../src/apiClient";
+import { processLeads } from "../src/leadProcessor";
+
+const app = require("../server.js");
+
+const silentLogger = () => ({
+  error: jest.fn(),
+  warn: jest.fn(),
+  info: jest.fn(),
+  debug: jest.fn(),
+});
+
+describe("mock lead store server", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll((done) => {
+    server = app.listen(0, () => {
+      baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    // No simulated 429s or 500s, and the shortest fixed delay
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("accepts a partial update that sends only the changed fields", async () => {
+    const client = createApiClient({ baseUrl, logger: silentLogger() });
+
+    const lead = {
+      name: "Alice Johnson",
+      email: "alice@example.com",
+      company: "Globex",
+      source: "LinkedIn",
+    };
+
+    const { results } = await processLeads([lead], { client, logger: silentLogger() });
+
+    expect(results[0]).toMatchObject({ action: "updated" });
+    expect(await client.lookupLead("alice@example.com")).toMatchObject({
+      name: "Alice Johnson",
+      company: "Globex",
+      source: "LinkedIn",
+    });
+  });
+
+  it("still validates the fields a partial update sends", async () => {
+    const client = createApiClient({ baseUrl, logger: silentLogger() });
+
+    const update = client.updateLead({ email: "bob@startup.com", source: "Billboard" });
+
+    await expect(update).rejects.toThrow(/400/);
+    expect(await client.lookupLead("bob@startup.com")).toMatchObject({ source: "Webinar" });
+  });
+});
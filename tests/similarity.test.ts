@@ -0,0 +1,46 @@
+import { closestMatch, jaroWinkler, levenshtein } from "../src/similarity";
+
+describe("levenshtein", () => {
+  it.each([
+    ["", "", 0],
+    ["abc", "", 3],
+    ["kitten", "sitting", 3],
+    ["linkedin", "linkdin", 1],
+  ])("distance(%j, %j) = %d", (a, b, expected) => {
+    expect(levenshtein(a, b)).toBe(expected);
+  });
+});
+
+describe("closestMatch", () => {
+  const sources = ["LinkedIn", "Webinar", "Website", "Twitter"];
+
+  it("returns the nearest candidate within the default limit", () => {
+    expect(closestMatch("linkdin", sources)).toBe("LinkedIn");
+    expect(closestMatch("Webinr", sources)).toBe("Webinar");
+  });
+
+  it("returns undefined when nothing is close enough", () => {
+    expect(closestMatch("TikTok", sources)).toBeUndefined();
+  });
+
+  it("honours an explicit distance limit", () => {
+    expect(closestMatch("Webnr", sources, undefined, 1)).toBeUndefined();
+  });
+});
+
+describe("jaroWinkler", () => {
+  it("scores identical and disjoint strings", () => {
+    expect(jaroWinkler("acme", "acme")).toBe(1);
+    expect(jaroWinkler("abc", "xyz")).toBe(0);
+    expect(jaroWinkler("", "abc")).toBe(0);
+  });
+
+  it("matches the reference values", () => {
+    expect(jaroWinkler("martha", "marhta")).toBeCloseTo(0.961, 3);
+    expect(jaroWinkler("dixon", "dicksonx")).toBeCloseTo(0.813, 3);
+  });
+
+  it("is symmetric", () => {
+    expect(jaroWinkler("jane doe", "jane deo")).toBeCloseTo(jaroWinkler("jane deo", "jane doe"));
+  });
+});
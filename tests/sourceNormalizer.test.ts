@@ -0,0 +1,34 @@
+import { canonicalizeSource, sourceKey } from "../src/sourceNormalizer";
+
+describe("sourceKey", () => {
+  it("keeps only lowercase letters and digits", () => {
+    expect(sourceKey(" Linked-In ")).toBe("linkedin");
+  });
+});
+
+describe("canonicalizeSource", () => {
+  it.each([
+    ["LinkedIn", "LinkedIn"],
+    ["linkedin", "LinkedIn"],
+    ["Linked In", "LinkedIn"],
+    ["LI", "LinkedIn"],
+    ["web", "Website"],
+    ["WEB SITE", "Website"],
+    [" twitter ", "Twitter"],
+  ])("maps %j to %s", (raw, expected) => {
+    expect(canonicalizeSource(raw)).toBe(expected);
+  });
+
+  it("returns undefined for unknown or blank sources", () => {
+    expect(canonicalizeSource("TikTok")).toBeUndefined();
+    expect(canonicalizeSource("  ")).toBeUndefined();
+  });
+
+  it("uses the given allowed list and aliases", () => {
+    expect(canonicalizeSource("ig", ["Instagram"], { ig: "Instagram" })).toBe("Instagram");
+  });
+
+  it("ignores aliases pointing at sources that are not allowed", () => {
+    expect(canonicalizeSource("li", ["Website"])).toBeUndefined();
+  });
+});
@@ -0,0 +1,176 @@
+import { UndoOptions, UndoResult, undoRun } from "../src/undo";
+import { RunLogEntry } from "../src/runLog";
+import { FieldChange } from "../src/leadDiff";
+import { Lead } from "../src/validator";
+import { ApiClient } from "../src/apiClient";
+
+const mockedApiClient: jest.Mocked<ApiClient> = {
+  lookupLead: jest.fn(),
+  createLead: jest.fn(),
+  updateLead: jest.fn(),
+  deleteLead: jest.fn(),
+};
+
+/** Runs undoRun against the mock client */
+const undo = (
+  entries: RunLogEntry[],
+  options: Omit<UndoOptions, "client"> = {}
+): Promise<UndoResult[]> => undoRun(entries, { client: mockedApiClient, ...options });
+
+function mockLead(overrides: Partial<Lead> = {}): Lead {
+  return {
+    name: "Jane Doe",
+    email: "jane@example.com",
+    company: "Acme Corp",
+    source: "LinkedIn",
+    ...overrides,
+  };
+}
+
+const updated = (before: Lead, changes: FieldChange[]): RunLogEntry => ({
+  kind: "updated",
+  email: before.email,
+  before,
+  changes,
+});
+
+describe("undoRun", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("restores the earlier values of updated fields", async () => {
+    mockedApiClient.lookupLead.mockResolvedValueOnce(mockLead({ company: "New Corp" }));
+    mockedApiClient.updateLead.mockResolvedValueOnce(mockLead());
+
+    const results = await undo([
+      updated(mockLead({ company: "Old Corp" }), [
+        { field: "company", before: "Old Corp", after: "New Corp" },
+      ]),
+    ]);
+
+    expect(mockedApiClient.updateLead).toHaveBeenCalledWith({
+      email: "jane@example.com",
+      company: "Old Corp",
+    });
+    expect(results).toEqual([
+      {
+        email: "jane@example.com",
+        action: "restored",
+        details: "Restored company",
+        changes: [{ field: "company", before: "New Corp", after: "Old Corp" }],
+      },
+    ]);
+  });
+
+  it("leaves fields alone that changed since the run or had no earlier value", async () => {
+    mockedApiClient.lookupLead.mockResolvedValueOnce(
+      mockLead({ name: "Janet Doe", company: "New Corp", custom: { tier: "gold" } })
+    );
+    mockedApiClient.updateLead.mockResolvedValueOnce(mockLead());
+
+    const [result] = await undo([
+      updated(mockLead({ company: "Old Corp" }), [
+        { field: "name", before: "Jane Doe", after: "Jane Q. Doe" },
+        { field: "company", before: "Old Corp", after: "New Corp" },
+        { field: "tier", after: "gold" },
+      ]),
+    ]);
+
+    expect(mockedApiClient.updateLead).toHaveBeenCalledWith({
+      email: "jane@example.com",
+      company: "Old Corp",
+    });
+    expect(result.details).toBe(
+      "Restored company; left as is: name changed since the run; tier had no earlier value"
+    );
+  });
+
+  it("undoes entries newest first", async () => {
+    mockedApiClient.lookupLead
+      .mockResolvedValueOnce(mockLead({ company: "Third" }))
+      .mockResolvedValueOnce(mockLead({ company: "Second" }));
+    mockedApiClient.updateLead.mockResolvedValue(mockLead());
+
+    await undo([
+      updated(mockLead({ company: "First" }), [
+        { field: "company", before: "First", after: "Second" },
+      ]),
+      updated(mockLead({ company: "Second" }), [
+        { field: "company", before: "Second", after: "Third" },
+      ]),
+    ]);
+
+    expect(mockedApiClient.updateLead.mock.calls.map(([update]) => update.company)).toEqual([
+      "Second",
+      "First",
+    ]);
+  });
+
+  it("reports created leads unless asked to remove them", async () => {
+    const entries: RunLogEntry[] = [{ kind: "created", email: "new@example.com" }];
+
+    expect(await undo(entries)).toEqual([
+      { email: "new@example.com", action: "kept", details: "Created by the run; not removed" },
+    ]);
+    expect(mockedApiClient.deleteLead).not.toHaveBeenCalled();
+
+    mockedApiClient.deleteLead.mockResolvedValueOnce(true);
+    const [removed] = await undo(entries, { removeCreated: true });
+    expect(mockedApiClient.deleteLead).toHaveBeenCalledWith("new@example.com");
+    expect(removed.action).toBe("removed");
+  });
+
+  it("skips leads that no longer exist", async () => {
+    mockedApiClient.lookupLead.mockResolvedValueOnce(null);
+    mockedApiClient.deleteLead.mockResolvedValueOnce(false);
+
+    const results = await undo(
+      [
+        { kind: "created", email: "new@example.com" },
+        updated(mockLead(), [{ field: "company", before: "Old Corp", after: "Acme Corp" }]),
+      ],
+      { removeCreated: true }
+    );
+
+    expect(results.map((r) => [r.action, r.details])).toEqual([
+      ["skipped", "Lead no longer exists"],
+      ["skipped", "Lead no longer exists"],
+    ]);
+  });
+
+  it("ignores leads the run failed to write", async () => {
+    const results = await undo([
+      {
+        kind: "failed",
+        email: "jane@example.com",
+        input: "leads.csv",
+        line: 2,
+        lead: mockLead(),
+        error: "Max retries exhausted",
+      },
+      { kind: "resolved", email: "jane@example.com", input: "leads.csv", line: 2 },
+    ]);
+
+    expect(results).toEqual([]);
+    expect(mockedApiClient.lookupLead).not.toHaveBeenCalled();
+  });
+
+  it("turns a failed entry into an error and carries on", async () => {
+    mockedApiClient.lookupLead.mockRejectedValueOnce(new Error("Network down"));
+    mockedApiClient.deleteLead.mockResolvedValueOnce(true);
+
+    const results = await undo(
+      [
+        { kind: "created", email: "new@example.com" },
+        updated(mockLead(), [{ field: "company", before: "Old Corp", after: "Acme Corp" }]),
+      ],
+      { removeCreated: true }
+    );
+
+    expect(results.map((r) => [r.email, r.action, r.details])).toEqual([
+      ["jane@example.com", "error", "Network down"],
+      ["new@example.com", "removed", "Lead deleted"],
+    ]);
+  });
+});
@@ -96,6 +96,58 @@ import {
       });
     });
   
+    describe("source normalization", () => {
+      it.each(["linkedin", "Linked In", "LI"])("accepts %j as LinkedIn", (source) => {
+        const result = validateLead(validLead({ source }));
+        expect(result.isValid).toBe(true);
+        expect(result.normalizedLead?.source).toBe("LinkedIn");
+      });
+
+      it("uses configured aliases", () => {
+        const result = validateLead(validLead({ source: "Meetup" }), {
+          sourceAliases: { meetup: "Conference" },
+        });
+        expect(result.normalizedLead?.source).toBe("Conference");
+      });
+
+      it("suggests the closest allowed source", () => {
+        const result = validateLead(validLead({ source: "Webinr" }));
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toEqual(['Invalid source: "Webinr" (did you mean "Webinar"?)']);
+        expect(result.issues[0].suggestion).toBe("Webinar");
+      });
+    });
+
+    describe("company normalization", () => {
+      it("tidies whitespace and applies company aliases", () => {
+        expect(validateLead(validLead({ company: " Acme   Inc " })).normalizedLead?.company).toBe(
+          "Acme Inc"
+        );
+        const result = validateLead(validLead({ company: "Globex Intl." }), {
+          companyAliases: { "globex intl": "Globex International" },
+        });
+        expect(result.normalizedLead?.company).toBe("Globex International");
+      });
+  
+      it("trims leading and trailing whitespace from company", () => {
+        const result = validateLead(validLead({ company: "  Acme Corp  " }));
+        expect(result.isValid).toBe(true);
+        expect(result.errors).toEqual([]);
+      });
+  
+      it("collapses multiple internal spaces in company name", () => {
+        const result = validateLead(validLead({ company: "Acme   Corp   Inc" }));
+        expect(result.isValid).toBe(true);
+        expect(result.errors).toEqual([]);
+      });
+  
+      it("does not treat whitespace-only company as valid after trimming", () => {
+        const result = validateLead(validLead({ company: "    " }));
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toContain("Company is required");
+      });
+    });
+
     describe("multiple errors", () => {
       it("collects multiple errors at once for missing name and invalid email", () => {
         const result = validateLead(validLead({ name: "", email: "bademail" }));
@@ -121,23 +173,19 @@ import {
       });
     });
   
-    describe("company normalization", () => {
-      it("trims leading and trailing whitespace from company", () => {
-        const result = validateLead(validLead({ company: "  Acme Corp  " }));
-        expect(result.isValid).toBe(true);
-        expect(result.errors).toEqual([]);
+    describe("rule results", () => {
+      it("reports the ids of failed rules", () => {
+        const result = validateLead(validLead({ name: "", source: "TikTok" }));
+        expect(result.issues.map((i) => i.ruleId)).toEqual(["name.required", "source.allowed"]);
       });
-  
-      it("collapses multiple internal spaces in company name", () => {
-        const result = validateLead(validLead({ company: "Acme   Corp   Inc" }));
+
+      it("keeps the lead valid when only warning rules fail", () => {
+        const result = validateLead(validLead(), {
+          rules: [{ id: "phone.wanted", field: "phone", type: "required", severity: "warning" }],
+        });
         expect(result.isValid).toBe(true);
         expect(result.errors).toEqual([]);
-      });
-  
-      it("does not treat whitespace-only company as valid after trimming", () => {
-        const result = validateLead(validLead({ company: "    " }));
-        expect(result.isValid).toBe(false);
-        expect(result.errors).toContain("Company is required");
+        expect(result.warnings).toEqual(["Phone is required"]);
       });
     });
   });
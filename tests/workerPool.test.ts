@@ -0,0 +1,134 @@
+import { createKeyedLock, createOrderedKeyedLock, mapConcurrent } from "../src/workerPool";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("mapConcurrent", () => {
+  it("keeps input order when later items finish first", async () => {
+    const results = await mapConcurrent([30, 10, 20, 0], 4, async (ms, index) => {
+      await delay(ms);
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3]);
+  });
+
+  it("never exceeds the concurrency limit", async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    await mapConcurrent(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+      peak = Math.max(peak, ++inFlight);
+      await delay(1);
+      inFlight--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it("pulls async sources lazily", async () => {
+    const pulled: number[] = [];
+    async function* source() {
+      for (let i = 0; i < 5; i++) {
+        pulled.push(i);
+        yield i;
+      }
+    }
+
+    const seenAtStart: number[] = [];
+    await mapConcurrent(source(), 2, async (item) => {
+      if (item === 0) seenAtStart.push(...pulled);
+      await delay(1);
+    });
+
+    expect(seenAtStart.length).toBeLessThanOrEqual(2);
+    expect(pulled).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("rethrows worker errors and closes the source", async () => {
+    let closed = false;
+    async function* source() {
+      try {
+        for (let i = 0; i < 100; i++) yield i;
+      } finally {
+        closed = true;
+      }
+    }
+
+    await expect(
+      mapConcurrent(source(), 2, async (item) => {
+        if (item === 3) throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+    expect(closed).toBe(true);
+  });
+
+  it("rejects invalid concurrency", async () => {
+    await expect(mapConcurrent([], 0, async () => 0)).rejects.toThrow(/Invalid concurrency 0/);
+  });
+});
+
+describe("createKeyedLock", () => {
+  it("serializes calls per key in call order", async () => {
+    const withLock = createKeyedLock();
+    const events: string[] = [];
+    const task = (key: string, name: string, ms: number) =>
+      withLock(key, async () => {
+        events.push(`start ${name}`);
+        await delay(ms);
+        events.push(`end ${name}`);
+      });
+
+    await Promise.all([task("a", "a1", 20), task("a", "a2", 0), task("b", "b1", 5)]);
+
+    expect(events.indexOf("end a1")).toBeLessThan(events.indexOf("start a2"));
+    expect(events.indexOf("start b1")).toBeLessThan(events.indexOf("end a1"));
+  });
+
+  it("releases the key when a call fails", async () => {
+    const withLock = createKeyedLock();
+
+    await expect(withLock("a", async () => Promise.reject(new Error("x")))).rejects.toThrow("x");
+    await expect(withLock("a", async () => "ok")).resolves.toBe("ok");
+  });
+});
+
+describe("createOrderedKeyedLock", () => {
+  it("keeps the order turns were reserved in, however late their key is known", async () => {
+    const reserve = createOrderedKeyedLock();
+    const events: string[] = [];
+    const first = reserve();
+    const second = reserve();
+
+    const late = delay(20).then(() => first.run("a", async () => void events.push("first")));
+    const early = second.run("a", async () => void events.push("second"));
+    await Promise.all([late, early]);
+
+    expect(events).toEqual(["first", "second"]);
+  });
+
+  it("lets later turns through when an earlier one is skipped", async () => {
+    const reserve = createOrderedKeyedLock();
+    const skipped = reserve();
+    const next = reserve();
+
+    const result = next.run("a", async () => "ran");
+    skipped.skip();
+
+    expect(await result).toBe("ran");
+  });
+
+  it("overlaps turns with different keys once their keys are known", async () => {
+    const reserve = createOrderedKeyedLock();
+    let inFlight = 0;
+    let peak = 0;
+    const task = async () => {
+      peak = Math.max(peak, ++inFlight);
+      await delay(5);
+      inFlight--;
+    };
+
+    await Promise.all([reserve().run("a", task), reserve().run("b", task)]);
+
+    expect(peak).toBe(2);
+  });
+});